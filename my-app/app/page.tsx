@@ -1,13 +1,32 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { BikeSelector } from '@/components/bike-selector'
 import BikeVisualization from '@/components/bike-visualization'
+import { ProfileManager } from '@/components/profile-manager'
+import { GeometryEditor } from '@/components/geometry-editor'
+import { PositionTransfer } from '@/components/position-transfer'
+import { SizeRecommender } from '@/components/size-recommender'
+import { FrameSearchDialog } from '@/components/frame-search-dialog'
+import { CockpitOptimizerDialog } from '@/components/cockpit-optimizer-dialog'
+import { SensitivityDialog } from '@/components/sensitivity-dialog'
+import { SizeRunChartDialog } from '@/components/size-run-chart-dialog'
+import { ThresholdSettingsDialog } from '@/components/threshold-settings-dialog'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import bikesData from '@/data/bikes.json'
 import { parseBikesData } from '@/lib/bikes-schema'
 import { clampCockpitSetup, DEFAULT_COCKPIT, DEFAULT_RIDER, DEFAULT_BIKE_SELECTION } from '@/lib/defaults'
+import { buildShareHash, readShareHash, resolveSharedBike } from '@/lib/share-state'
+import { loadCustomBikes, mergeAvailableBikes, saveCustomBikes } from '@/lib/custom-bikes'
+import { buildFitReportHtml } from '@/lib/fit-report'
+import {
+  DEFAULT_THRESHOLD_SETTINGS,
+  getActiveThresholdProfile,
+  loadThresholdSettings,
+  saveThresholdSettings,
+  type ThresholdSettings,
+} from '@/lib/threshold-profiles'
 import type {
 BikeData,
   BikeGeometry,
@@ -15,7 +34,7 @@ BikeData,
   RiderSetup,
   AvailableBikesMap,
 } from '@/types/bike'
-import { Info , Heart } from 'lucide-react'
+import { Info , Heart, Link2, Check, X, FileText, Search, ChartScatter, SlidersHorizontal, Wand2, Grid3x3 } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -34,6 +53,9 @@ const AVAILABLE_BIKES = parseBikesData(bikesData)
 // Animation interval for pedal auto-rotation (milliseconds)
 const PEDAL_ANIM_INTERVAL_MS = 30
 
+// Verzögerung, bevor der aktuelle Vergleich in die URL geschrieben wird (ms)
+const SHARE_HASH_DEBOUNCE_MS = 400
+
 function getFirstAvailableBike(): BikeData | null {
   const { brand, model, size } = DEFAULT_BIKE_SELECTION
   const geometry = AVAILABLE_BIKES[brand]?.[model]?.[size]
@@ -98,6 +120,103 @@ export default function Home() {
   // Alignment mode removed
   const [activeTab, setActiveTab] = useState('bikeA')
   const [isPedaling, setIsPedaling] = useState(false)
+  const [shareNotice, setShareNotice] = useState<string | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [customBikes, setCustomBikes] = useState<AvailableBikesMap>({})
+  const [frameSearchOpen, setFrameSearchOpen] = useState(false)
+  const [sizeRunOpen, setSizeRunOpen] = useState(false)
+  const [thresholdSettings, setThresholdSettings] = useState<ThresholdSettings>(DEFAULT_THRESHOLD_SETTINGS)
+  const [thresholdSettingsOpen, setThresholdSettingsOpen] = useState(false)
+  const [optimizerOpen, setOptimizerOpen] = useState(false)
+  const [sensitivityOpen, setSensitivityOpen] = useState(false)
+  const hashRestoredRef = useRef(false)
+
+  /** Mitgelieferte + eigene Rahmen für alle Auswahlfelder. */
+  const availableBikes = useMemo(
+    () => mergeAvailableBikes(AVAILABLE_BIKES, customBikes),
+    [customBikes]
+  )
+
+  const handleCustomBikesChange = (bikes: AvailableBikesMap) => {
+    setCustomBikes(bikes)
+    saveCustomBikes(bikes)
+  }
+
+  const activeThresholdProfile = getActiveThresholdProfile(thresholdSettings)
+
+  const handleThresholdSettingsChange = (settings: ThresholdSettings) => {
+    setThresholdSettings(settings)
+    saveThresholdSettings(settings)
+  }
+
+  // Schwellen-Profile erst nach dem Mount lesen (localStorage gibt es nur im Browser)
+  useEffect(() => {
+    setThresholdSettings(loadThresholdSettings())
+  }, [])
+
+  // Geteilten Vergleich aus dem URL-Hash übernehmen (beim Laden und bei neuem Link)
+  useEffect(() => {
+    const restoreFromHash = () => {
+      hashRestoredRef.current = true
+      // Eigene Rahmen zuerst laden, damit geteilte Links darauf verweisen können
+      const custom = loadCustomBikes()
+      setCustomBikes(custom)
+      const shared = readShareHash(window.location.hash)
+      if (!shared) return
+
+      const bikes = mergeAvailableBikes(AVAILABLE_BIKES, custom)
+      const fallback = getFirstAvailableBike()
+      const resolvedA = resolveSharedBike(shared.a, bikes, fallback)
+      const resolvedB = shared.b ? resolveSharedBike(shared.b, bikes, fallback) : null
+      if (resolvedA) setBikeA(resolvedA.bike)
+      setBikeB(resolvedB?.bike ?? null)
+
+      const missing = [
+        resolvedA && !resolvedA.exact ? `${shared.a.brand} ${shared.a.model} (${shared.a.size})` : null,
+        shared.b && resolvedB && !resolvedB.exact ? `${shared.b.brand} ${shared.b.model} (${shared.b.size})` : null,
+      ].filter((name): name is string => name !== null)
+      setShareNotice(
+        missing.length > 0
+          ? `Nicht mehr verfügbar: ${missing.join(', ')}. Setup wurde auf ein Ersatz-Bike übernommen.`
+          : null
+      )
+    }
+
+    restoreFromHash()
+    window.addEventListener('hashchange', restoreFromHash)
+    return () => window.removeEventListener('hashchange', restoreFromHash)
+  }, [])
+
+  // Aktuellen Vergleich verzögert in die URL schreiben, damit ein Reload ihn behält
+  useEffect(() => {
+    if (!hashRestoredRef.current) return
+    const timeout = setTimeout(() => {
+      window.history.replaceState(null, '', buildShareHash(bikeA, bikeB))
+    }, SHARE_HASH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [bikeA, bikeB])
+
+  const handleCopyShareLink = async () => {
+    const { origin, pathname, search } = window.location
+    const url = `${origin}${pathname}${search}${buildShareHash(bikeA, bikeB)}`
+    window.history.replaceState(null, '', url)
+    try {
+      await navigator.clipboard.writeText(url)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch {
+      // Zwischenablage nicht verfügbar: Link steht trotzdem in der Adresszeile
+    }
+  }
+
+  /** Öffnet den druckbaren Fit-Report in einem neuen Tab (PDF über den Druckdialog). */
+  const handleOpenFitReport = () => {
+    const html = buildFitReportHtml(bikeA, bikeB, { thresholdProfile: activeThresholdProfile })
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }))
+    window.open(url, '_blank')
+    // Tab hat die Daten nach dem Laden übernommen
+    setTimeout(() => URL.revokeObjectURL(url), 60000)
+  }
 
   // Auto-increment pedal angle when isPedaling is true
   useEffect(() => {
@@ -145,6 +264,128 @@ export default function Home() {
                 </span>
               </div>
 
+              <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 rounded-full text-muted-foreground hover:text-foreground"
+                onClick={handleCopyShareLink}
+                title="Link zum Vergleich kopieren"
+              >
+                {linkCopied ? <Check className="h-4 w-4 text-green-600" /> : <Link2 className="h-4 w-4" />}
+                <span className="sr-only">Link teilen</span>
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 rounded-full text-muted-foreground hover:text-foreground"
+                onClick={handleOpenFitReport}
+                title="Fit-Report öffnen (druckbar als PDF)"
+              >
+                <FileText className="h-4 w-4" />
+                <span className="sr-only">Fit-Report</span>
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 rounded-full text-muted-foreground hover:text-foreground"
+                onClick={() => setFrameSearchOpen(true)}
+                title="Rahmen nach Stack & Reach suchen"
+              >
+                <Search className="h-4 w-4" />
+                <span className="sr-only">Rahmensuche</span>
+              </Button>
+              <FrameSearchDialog
+                open={frameSearchOpen}
+                onOpenChange={setFrameSearchOpen}
+                availableBikes={availableBikes}
+                bikeA={bikeA}
+                bikeB={bikeB}
+                onLoad={(slot, bike) => {
+                  if (slot === 'A') setBikeA(bike)
+                  else setBikeB(bike)
+                  setActiveTab(slot === 'A' ? 'bikeA' : 'bikeB')
+                }}
+              />
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 rounded-full text-muted-foreground hover:text-foreground"
+                onClick={() => setSizeRunOpen(true)}
+                title="Größenverlauf Stack/Reach anzeigen"
+              >
+                <ChartScatter className="h-4 w-4" />
+                <span className="sr-only">Größenverlauf</span>
+              </Button>
+              <SizeRunChartDialog
+                open={sizeRunOpen}
+                onOpenChange={setSizeRunOpen}
+                availableBikes={availableBikes}
+                bikeA={bikeA}
+                bikeB={bikeB}
+              />
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 rounded-full text-muted-foreground hover:text-foreground"
+                onClick={() => setThresholdSettingsOpen(true)}
+                title="Warnschwellen einstellen"
+              >
+                <SlidersHorizontal className="h-4 w-4" />
+                <span className="sr-only">Warnschwellen</span>
+              </Button>
+              <ThresholdSettingsDialog
+                open={thresholdSettingsOpen}
+                onOpenChange={setThresholdSettingsOpen}
+                settings={thresholdSettings}
+                onChange={handleThresholdSettingsChange}
+              />
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 rounded-full text-muted-foreground hover:text-foreground"
+                onClick={() => setOptimizerOpen(true)}
+                title="Bestes Cockpit-Setup finden"
+              >
+                <Wand2 className="h-4 w-4" />
+                <span className="sr-only">Setup-Optimierer</span>
+              </Button>
+              <CockpitOptimizerDialog
+                open={optimizerOpen}
+                onOpenChange={setOptimizerOpen}
+                bikeA={bikeA}
+                bikeB={bikeB}
+                thresholds={activeThresholdProfile.thresholds}
+                onLoad={(slot, bike) => {
+                  if (slot === 'A') setBikeA(bike)
+                  else setBikeB(bike)
+                  setActiveTab(slot === 'A' ? 'bikeA' : 'bikeB')
+                }}
+              />
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 rounded-full text-muted-foreground hover:text-foreground"
+                onClick={() => setSensitivityOpen(true)}
+                title="Sensitivität der Kennzahlen anzeigen"
+              >
+                <Grid3x3 className="h-4 w-4" />
+                <span className="sr-only">Sensitivität</span>
+              </Button>
+              <SensitivityDialog
+                open={sensitivityOpen}
+                onOpenChange={setSensitivityOpen}
+                bikeA={bikeA}
+                bikeB={bikeB}
+                thresholds={activeThresholdProfile.thresholds}
+              />
+
               <Dialog>
                 <DialogTrigger asChild>
                   <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full text-muted-foreground hover:text-foreground">
@@ -185,11 +426,21 @@ export default function Home() {
                   </div>
                 </DialogContent>
               </Dialog>
+              </div>
             </div>
             {/* Hier nur noch EIN erklärender Satz */}
             <p className="text-xs text-muted-foreground mt-1">
               Visualisiere Geometrien und vergleiche deine Sitzposition.
             </p>
+            {shareNotice && (
+              <div className="mt-3 flex items-start gap-2 rounded-md border border-border bg-muted/50 p-2 text-[11px] text-muted-foreground">
+                <span className="flex-1">{shareNotice}</span>
+                <button type="button" onClick={() => setShareNotice(null)} className="hover:text-foreground">
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Hinweis schließen</span>
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -209,8 +460,9 @@ export default function Home() {
               setBike={(bike) => bike !== null && setBikeA(bike)}
               bikeName="Bike A"
               color="red"
-              availableBikes={AVAILABLE_BIKES}
+              availableBikes={availableBikes}
               allowClear={false}
+              thresholds={activeThresholdProfile.thresholds}
             />
           </TabsContent>
 
@@ -220,10 +472,50 @@ export default function Home() {
               setBike={setBikeB}
               bikeName="Bike B"
               color="blue"
-              availableBikes={AVAILABLE_BIKES}
+              availableBikes={availableBikes}
+              thresholds={activeThresholdProfile.thresholds}
             />
           </TabsContent>
         </Tabs>
+
+        <ProfileManager
+          bikeA={bikeA}
+          bikeB={bikeB}
+          availableBikes={availableBikes}
+          onLoad={(slot, bike) => {
+            if (slot === 'A') setBikeA(bike)
+            else setBikeB(bike)
+            setActiveTab(slot === 'A' ? 'bikeA' : 'bikeB')
+          }}
+        />
+
+        <PositionTransfer
+          bikeA={bikeA}
+          bikeB={bikeB}
+          onApply={(bike) => {
+            setBikeB(bike)
+            setActiveTab('bikeB')
+          }}
+        />
+
+        <SizeRecommender
+          bike={bikeA}
+          availableBikes={availableBikes}
+          thresholds={activeThresholdProfile.thresholds}
+          onLoad={(slot, bike) => {
+            if (slot === 'A') setBikeA(bike)
+            else setBikeB(bike)
+            setActiveTab(slot === 'A' ? 'bikeA' : 'bikeB')
+          }}
+        />
+
+        <GeometryEditor
+          baseBike={activeTab === 'bikeB' && bikeB ? bikeB : bikeA}
+          availableBikes={availableBikes}
+          customBikes={customBikes}
+          onCustomBikesChange={handleCustomBikesChange}
+          onApply={(bike) => (activeTab === 'bikeB' ? setBikeB(bike) : setBikeA(bike))}
+        />
       </div>
 
       {/* Main Area - Header entfernt, SVG-Bereich vergrößert */}
@@ -234,6 +526,7 @@ export default function Home() {
             bikeB={bikeB}
             isPedaling={isPedaling}
             setIsPedaling={setIsPedaling}
+            thresholdProfile={activeThresholdProfile}
           />
         </div>
       </div>
@@ -0,0 +1,82 @@
+'use client'
+
+import type { AnklingKeyframes, AnklingProfile, RiderSetup } from '@/types/bike'
+import {
+  ANKLING_KEYFRAME_ANGLES,
+  ANKLING_PROFILE_IDS,
+  ANKLING_PROFILES,
+  DEFAULT_ANKLING_PROFILE,
+  getAnklingKeyframes,
+} from '@/lib/ankling-profiles'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type AnklingProfileEditorProps = {
+  rider: RiderSetup
+  onChange: (rider: RiderSetup) => void
+}
+
+/** Ankling-Profil (Fußwinkel über die Kurbelumdrehung), bei „Eigene Werte“ mit Keyframes. */
+export function AnklingProfileEditor({ rider, onChange }: AnklingProfileEditorProps) {
+  const profile = rider.anklingProfile ?? DEFAULT_ANKLING_PROFILE
+  const keyframes = getAnklingKeyframes(rider)
+
+  const handleProfileChange = (value: AnklingProfile) => {
+    // Eigene Werte starten mit dem bisher aktiven Verlauf
+    onChange({
+      ...rider,
+      anklingProfile: value,
+      anklingKeyframes: value === 'custom' ? keyframes : undefined,
+    })
+  }
+
+  const handleKeyframeChange = (index: number, value: number) => {
+    if (!Number.isFinite(value)) return
+    const next = [...keyframes] as AnklingKeyframes
+    next[index] = value
+    onChange({ ...rider, anklingProfile: 'custom', anklingKeyframes: next })
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-1.5">
+        <span className="text-muted-foreground">Ankling</span>
+        <Select value={profile} onValueChange={(value) => handleProfileChange(value as AnklingProfile)}>
+          <SelectTrigger className="flex-1 px-2 text-xs data-[size=sm]:h-7" size="sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {ANKLING_PROFILE_IDS.map((id) => (
+              <SelectItem key={id} value={id}>{ANKLING_PROFILES[id].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {ANKLING_PROFILES[profile].description} · Fußwinkel {keyframes.map((angle) => `${angle}°`).join(' / ')}
+        {' '}bei 3 / 6 / 9 / 12 Uhr (positiv = Zehen runter)
+      </p>
+      {profile === 'custom' && (
+        <div className="grid grid-cols-4 gap-1.5">
+          {ANKLING_KEYFRAME_ANGLES.map((pedalAngle, index) => (
+            <label key={pedalAngle} className="space-y-1 text-[10px] text-muted-foreground">
+              <span>{pedalAngle}°</span>
+              <Input
+                type="number"
+                min={-30}
+                max={60}
+                value={keyframes[index]}
+                onChange={(e) => handleKeyframeChange(index, Number(e.target.value))}
+                className="h-7 px-1 text-xs"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,24 @@
 'use client'
 
 import { ChevronRight } from 'lucide-react'
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import type { BikeData, BikeGeometry, CockpitSetup, RiderSetup } from '@/types/bike'
 import type { AvailableBikesMap } from '@/types/bike'
 import { COCKPIT_LIMITS, clampCockpitValue, clampCockpitSetup, DEFAULT_COCKPIT, DEFAULT_RIDER } from '@/lib/defaults'
+import { checkGeometryConsistency } from '@/lib/geometry-consistency'
+import { GEOMETRY_FIELDS } from '@/lib/geometry-fields'
+import { kneeAngleTargetFor, solveSeatPostForKneeAngle } from '@/lib/saddle-height-solver'
+import type { RiderSegmentField } from '@/lib/setup-fields'
+import { RACE_THRESHOLDS, type FitThresholds } from '@/lib/threshold-profiles'
+import { Button } from '@/components/ui/button'
+import { AnklingProfileEditor } from '@/components/ankling-profile-editor'
+import { CockpitSolver } from '@/components/cockpit-solver'
+import { FitSuggestionsPanel } from '@/components/fit-suggestions'
+import { KopsSolver } from '@/components/kops-solver'
+import { RiderProportionPresets } from '@/components/rider-proportion-presets'
+import { RiderSegmentsEditor } from '@/components/rider-segments-editor'
+import { TorsoAngleSolver } from '@/components/torso-angle-solver'
+import { useStaticBike } from '@/hooks/use-static-bike'
 import {
   Select,
   SelectContent,
@@ -105,6 +119,7 @@ type BikeSelectorProps = {
   color: 'red' | 'blue'
   availableBikes: AvailableBikesMap
   allowClear?: boolean
+  thresholds?: FitThresholds // aktives Schwellen-Profil für die Vorschläge
 }
 
 export function BikeSelector({
@@ -114,9 +129,18 @@ export function BikeSelector({
   color,
   availableBikes,
   allowClear = true,
+  thresholds,
 }: BikeSelectorProps) {
   
 const [geoOpen, setGeoOpen] = useState(false)
+  // Zielbereich Kniewinkel unten aus dem aktiven Profil; min = max für einen festen Zielwert
+  const [kneeTarget, setKneeTarget] = useState(() => kneeAngleTargetFor(thresholds ?? RACE_THRESHOLDS))
+  // Profilwechsel: Zielbereich neu aus den Schwellen übernehmen
+  const [kneeTargetThresholds, setKneeTargetThresholds] = useState(thresholds)
+  if (kneeTargetThresholds !== thresholds) {
+    setKneeTargetThresholds(thresholds)
+    setKneeTarget(kneeAngleTargetFor(thresholds ?? RACE_THRESHOLDS))
+  }
 
   // ... (Handler bleiben exakt gleich wie in deinem Code) ...
   const handleBrandChange = (brand: string) => {
@@ -145,13 +169,33 @@ const [geoOpen, setGeoOpen] = useState(false)
     const safeValue = Number.isFinite(value) ? value : bike.rider[field]
     setBike({ ...bike, rider: { ...bike.rider, [field]: safeValue } })
   }
+  const handleOptionalRiderChange = (field: RiderSegmentField | 'targetElbowAngle', value: number | undefined) => {
+    if (!bike) return
+    // undefined entfernt den Wert → Körperproportionen bzw. fester Rückenwinkel
+    const rider = { ...bike.rider, [field]: value }
+    if (value === undefined) delete rider[field]
+    setBike({ ...bike, rider })
+  }
   const handleHandPositionChange = (position: 'hoods' | 'drops') => { /* ... wie vorher ... */ 
       if (!bike) return; setBike({ ...bike, cockpit: { ...bike.cockpit, handPosition: position } })
   }
 
   const brands = Object.keys(availableBikes)
-  const models = bike ? Object.keys(availableBikes[bike.brand]) : []
-  const sizes = bike ? Object.keys(availableBikes[bike.brand][bike.model]) : []
+  // Eigene Rahmen können gelöscht werden, daher fehlende Marken/Modelle abfangen
+  const models = bike ? Object.keys(availableBikes[bike.brand] ?? {}) : []
+  const sizes = bike ? Object.keys(availableBikes[bike.brand]?.[bike.model] ?? {}) : []
+  // Prüft nur den Rahmen – Pedal-Animation und Cockpit-Änderungen lösen keine Neuberechnung aus
+  const frameGeometry = bike?.geometry
+  const consistency = useMemo(() => (frameGeometry ? checkGeometryConsistency(frameGeometry) : null), [frameGeometry])
+  // Kniewinkel bei 90° hängt nicht von der Kurbelstellung ab – beim Pedalieren nicht neu lösen
+  const staticBike = useStaticBike(bike)
+  const saddleSolution = useMemo(
+    () => staticBike && kneeTarget.min <= kneeTarget.max
+      ? solveSeatPostForKneeAngle(staticBike, kneeTarget.min === kneeTarget.max ? kneeTarget.min : kneeTarget)
+      : null,
+    [staticBike, kneeTarget]
+  )
+  const failedChecks = consistency?.checks.filter((check) => !check.ok) ?? []
 
   return (
     <div className="p-6">
@@ -218,6 +262,16 @@ const [geoOpen, setGeoOpen] = useState(false)
                   <span className="bg-muted text-[10px] px-1.5 py-0.5 rounded-full font-normal text-muted-foreground">
                     Herstellerangaben
                   </span>
+                  {/* Warnung bei widersprüchlichen Werten / Platzhaltern */}
+                  {failedChecks.length > 0 ? (
+                    <span className="bg-[#f39c12] text-white text-[10px] px-1.5 py-0.5 rounded-full font-medium normal-case tracking-normal">
+                      ⚠ {failedChecks.length} Abweichung{failedChecks.length > 1 ? 'en' : ''}
+                    </span>
+                  ) : consistency && consistency.placeholders.length > 0 ? (
+                    <span className="bg-muted text-[10px] px-1.5 py-0.5 rounded-full font-normal normal-case tracking-normal text-[#f39c12]">
+                      ⚠ Platzhalter
+                    </span>
+                  ) : null}
                 </h3>
                 {/* Chevron Icon dreht sich */}
                 <ChevronRight className={`h-4 w-4 text-muted-foreground transition-transform duration-200 ${geoOpen ? 'rotate-90' : ''}`} />
@@ -226,6 +280,24 @@ const [geoOpen, setGeoOpen] = useState(false)
               {/* Inhalt (Animation via CSS Klasse oder einfach konditional) */}
               {geoOpen && (
                 <div className="space-y-2 p-3 bg-muted/30 rounded-md border border-border/50 animate-in slide-in-from-top-2 duration-200">
+                  {consistency?.hasIssues && (
+                    <div className="mb-2 space-y-1 rounded border border-[#f39c12]/40 bg-[#f39c12]/10 p-2 text-[11px]">
+                      {failedChecks.map((check) => (
+                        <div key={check.id}>
+                          <b>{check.label}:</b> angegeben {check.declared} mm, berechnet {check.derived.toFixed(0)} mm
+                          {' '}(Δ {check.difference > 0 ? '+' : ''}{check.difference.toFixed(0)} mm, Toleranz ±{check.tolerance})
+                        </div>
+                      ))}
+                      {consistency.placeholders.length > 0 && (
+                        <div className="text-muted-foreground">
+                          Vermutlich Platzhalterwerte:{' '}
+                          {consistency.placeholders
+                            .map((key) => GEOMETRY_FIELDS.find((field) => field.key === key)?.label ?? key)
+                            .join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  )}
                   {/* Jetzt EINSPALTIG: space-y-1 statt grid */}
                                     <div className="space-y-1">
                     <GeoRow 
@@ -344,6 +416,8 @@ const [geoOpen, setGeoOpen] = useState(false)
                   <SetupInput id={`${bikeName}-reach`} label="Lenker Reach" suffix="mm" value={bike.cockpit.handlebarReach} onChange={(v) => handleCockpitChange('handlebarReach', v)} tooltip="Der horizontale Abstand von der Lenkermitte bis zur Vorderseite der Bremsgriffe. Beeinflusst, wie weit du nach vorne greifen musst." />
                   <SetupInput id={`${bikeName}-drop`} label="Lenker Drop" suffix="mm" value={bike.cockpit.handlebarDrop} onChange={(v) => handleCockpitChange('handlebarDrop', v)} tooltip="Der vertikale Abstand zwischen dem Oberlenker und dem Unterlenker. Ein größerer Drop ermöglicht eine tiefere, aerodynamischere Haltung im Unterlenker." />
                 </div>
+
+                <CockpitSolver bike={bike} onApply={(values) => setBike({ ...bike, cockpit: { ...bike.cockpit, ...values } })} />
               </div>
 
               <div className="border-t border-border/40" />
@@ -356,6 +430,51 @@ const [geoOpen, setGeoOpen] = useState(false)
                   <SetupInput id={`${bikeName}-saddle`} label="Sattellänge" suffix="mm" value={bike.cockpit.saddleLength ?? 255} onChange={(v) => handleCockpitChange('saddleLength', v)} tooltip="Die Gesamtlänge des Sattels. Wichtig für die Berechnung der effektiven Sitzposition." />
                   <SetupInput id={`${bikeName}-offset`} label="Sitzposition" suffix="Offset" value={bike.cockpit.sitboneOffset ?? -20} onChange={(v) => handleCockpitChange('sitboneOffset', v)} tooltip="Feinjustierung der Sitzposition auf dem Sattel. Ein negativer Wert verschiebt den Sitzknochen-Kontaktpunkt nach vorne, ein positiver nach hinten." />
                 </div>
+
+                {/* Sattelhöhe aus Ziel-Kniewinkel */}
+                <div className="space-y-2 p-2 bg-muted/30 rounded-md border border-border/50 text-[11px]">
+                  <div className="flex items-center gap-1.5">
+                    <span className="font-medium flex-1">Sattelhöhe aus Kniewinkel unten</span>
+                    <Input
+                      type="number"
+                      aria-label="Kniewinkel Minimum"
+                      value={kneeTarget.min}
+                      onChange={(e) => setKneeTarget({ ...kneeTarget, min: Number(e.target.value) })}
+                      className="h-6 w-14 px-1 text-xs"
+                    />
+                    <span>–</span>
+                    <Input
+                      type="number"
+                      aria-label="Kniewinkel Maximum"
+                      value={kneeTarget.max}
+                      onChange={(e) => setKneeTarget({ ...kneeTarget, max: Number(e.target.value) })}
+                      className="h-6 w-14 px-1 text-xs"
+                    />
+                    <span>°</span>
+                  </div>
+                  {saddleSolution ? (
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 text-muted-foreground">
+                        Auszug <b className="text-foreground">{saddleSolution.seatPostLength} mm</b>
+                        {saddleSolution.seatPostRange && ` (${saddleSolution.seatPostRange.min}–${saddleSolution.seatPostRange.max})`}
+                        {' '}→ Knie {saddleSolution.kneeAngleAt90.toFixed(1)}°, Sattelhöhe {saddleSolution.saddleHeight.toFixed(0)} mm
+                        {!saddleSolution.reachable && <span className="text-[#f39c12]"> · Ziel außerhalb des Verstellbereichs</span>}
+                      </div>
+                      <Button
+                        size="xs"
+                        variant="outline"
+                        disabled={saddleSolution.seatPostLength === bike.cockpit.seatPostLength}
+                        onClick={() => handleCockpitChange('seatPostLength', saddleSolution.seatPostLength)}
+                      >
+                        Übernehmen
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="text-muted-foreground">Minimum darf nicht größer als Maximum sein.</div>
+                  )}
+                </div>
+
+                <KopsSolver bike={bike} onApply={handleCockpitChange} />
               </div>
 
               <div className="border-t border-border/40" />
@@ -365,6 +484,7 @@ const [geoOpen, setGeoOpen] = useState(false)
                 <div className="grid grid-cols-2 gap-3">
                    <SetupInput id={`${bikeName}-crank`} label="Kurbellänge" suffix="mm" value={bike.cockpit.crankLength} onChange={(v) => handleCockpitChange('crankLength', v)} tooltip="Die Länge der Kurbelarme. Kürzere Kurbeln können bei Knieproblemen helfen und die Bodenfreiheit in Kurven erhöhen, längere bieten potenziell mehr Hebelkraft." />
                    <SetupInput id={`${bikeName}-pedal`} label="Pedalwinkel" suffix="°" value={bike.cockpit.pedalAngle} onChange={(v) => handleCockpitChange('pedalAngle', v)} tooltip="Der Winkel der Pedale im tiefsten Punkt. Beeinflusst die Fußstellung und kann für die Simulation der Kniewinkel relevant sein." />
+                   <SetupInput id={`${bikeName}-cleat`} label="Cleat-Versatz" suffix="mm" value={bike.cockpit.cleatOffset ?? 0} onChange={(v) => handleCockpitChange('cleatOffset', v)} min={COCKPIT_LIMITS.cleatOffset.min} max={COCKPIT_LIMITS.cleatOffset.max} tooltip="Position des Cleats relativ zum Fußballen. Positive Werte schieben das Cleat Richtung Ferse (Mittelfuß), das verkürzt den Hebel bis zum Sprunggelenk." />
                 </div>
               </div>
 
@@ -378,6 +498,30 @@ const [geoOpen, setGeoOpen] = useState(false)
                     <SetupInput id={`${bikeName}-torso`} label="Rückenwinkel" suffix="°" value={bike.rider.torsoAngle} onChange={(v) => handleRiderChange('torsoAngle', v)} min={0} max={90} tooltip="Der gewünschte Winkel deines Oberkörpers relativ zur Horizontalen. Ein kleinerer Winkel bedeutet eine flachere, aerodynamischere Haltung." />
                     <SetupInput id={`${bikeName}-shoe`} label="Schuhdicke" suffix="mm" value={bike.rider.shoeThickness} onChange={(v) => handleRiderChange('shoeThickness', v)} min={0} max={50} tooltip="Die Dicke der Sohle deiner Radschuhe, inklusive Cleats. Beeinflusst die effektive Beinlänge." />
                  </div>
+                 <TorsoAngleSolver
+                   bike={bike}
+                   thresholds={thresholds}
+                   onTargetChange={(targetElbowAngle) => handleOptionalRiderChange('targetElbowAngle', targetElbowAngle)}
+                   onApplyTorsoAngle={(torsoAngle) => {
+                     const rider = { ...bike.rider, torsoAngle }
+                     delete rider.targetElbowAngle
+                     setBike({ ...bike, rider })
+                   }}
+                 />
+                 <AnklingProfileEditor rider={bike.rider} onChange={(rider) => setBike({ ...bike, rider })} />
+                 <RiderProportionPresets bike={bike} thresholds={thresholds} onApply={(rider) => setBike({ ...bike, rider })} />
+                 <RiderSegmentsEditor rider={bike.rider} onChange={handleOptionalRiderChange} />
+              </div>
+
+              <div className="border-t border-border/40" />
+
+              <div className="space-y-3">
+                <h3 className="text-xs font-bold text-foreground uppercase tracking-wider">Optimierung</h3>
+                <FitSuggestionsPanel
+                  bike={bike}
+                  thresholds={thresholds}
+                  onApply={(cockpit) => setBike({ ...bike, cockpit })}
+                />
               </div>
 
             </div>
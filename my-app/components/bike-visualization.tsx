@@ -8,27 +8,19 @@ import {
   KEY_POINT_IDS,
   SCALE,
 } from '@/lib/bike-geometry'
+import { evaluateFit, findFinding, type FitFinding } from '@/lib/fit-evaluation'
+import { RATING_COLORS, type FitMetricId, type MetricRating } from '@/lib/metric-ratings'
 import {
-  KNEE_90_MIN,
-  KNEE_90_MAX,
-  KNEE_90_MIN_WARNING,
-  KNEE_90_MAX_WARNING,
-  KNEE_270_MIN,
-  KNEE_270_MIN_WARNING,
-  SADDLE_HANDLEBAR_DROP_WARNING,
-  SADDLE_HANDLEBAR_DROP_CRITICAL,
-  KNEE_PEDAL_X_MIN_WARNING,
-  SHOULDER_ANGLE_MIN,
-  SHOULDER_ANGLE_MIN_WARNING,
-  SHOULDER_ANGLE_MAX_WARNING,
-  SHOULDER_ANGLE_MAX,
-  ELBOW_ANGLE_MIN_WARNING,
-  ELBOW_ANGLE_MAX_WARNING,
-  ELBOW_ANGLE_CRITICAL,
-  ANKLE_MIN,
-} from '@/lib/warning-thresholds'
+  BUILT_IN_THRESHOLD_PROFILES,
+  DEFAULT_THRESHOLD_PROFILE_ID,
+  type ThresholdProfile,
+} from '@/lib/threshold-profiles'
 import { Card } from '@/components/ui/card'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { BIKE_COLORS, renderSideViewSvg, type SideViewLegendEntry } from '@/lib/side-view-svg'
+import { downloadBlob, PNG_EXPORT_WIDTHS, svgToPngBlob, toFileSlug, type PngExportWidth } from '@/lib/image-export'
+import { PedalSweepDialog } from '@/components/pedal-sweep-dialog'
+import { analyzeKops, KOPS_PEDAL_ANGLE, type KopsAnalysis } from '@/lib/kops'
 import { useState, useRef, type MouseEvent, type WheelEvent, type TouchEvent } from 'react'
 import { HelpCircle } from 'lucide-react'
 
@@ -37,14 +29,42 @@ type BikeVisualizationProps = {
   bikeB: BikeData | null
   isPedaling: boolean
   setIsPedaling: (v: boolean) => void
+  thresholdProfile?: ThresholdProfile // Grenzen für den Biomechanik-Check (Standard: Race)
 }
 
+/** Im Biomechanik-Check immer sichtbar; die übrigen Messungen erscheinen dort nur bei gelb/rot. */
+const CHECK_ALWAYS_VISIBLE: FitMetricId[] = ['saddleHandlebarDrop', 'kneeAngleAt90', 'kneeAngleAt270', 'hipAngleMin']
+
+/** Reihenfolge der Zeilen im Biomechanik-Check. */
+const CHECK_ORDER: FitMetricId[] = [
+  'saddleHandlebarDrop',
+  'kneeAngleAt90',
+  'kneeAngleAt270',
+  'hipAngleMin',
+  'ankleAngleAt270',
+  'kneeTopedalXAt0',
+  'shoulderAngle',
+  'elbowAngle',
+]
+
+/** Hintergrund der Messwert-Kacheln je Ampelstufe (grün = neutral). */
+const tileStyle = (rating: MetricRating | undefined) => ({
+  backgroundColor: rating === 'red'
+    ? 'hsl(0 84% 60%)'
+    : rating === 'yellow'
+      ? 'hsl(45 93% 47%)'
+      : 'hsl(var(--muted) / 0.5)',
+  color: rating === 'red' || rating === 'yellow' ? 'white' : 'inherit',
+})
+
 const BikeVisualization = ({
   bikeA,
   bikeB,
   isPedaling,
   setIsPedaling,
+  thresholdProfile = BUILT_IN_THRESHOLD_PROFILES[DEFAULT_THRESHOLD_PROFILE_ID],
 }: BikeVisualizationProps) => {
+  const { thresholds } = thresholdProfile
   const [viewState, setViewState] = useState({ zoom: 0.7, pan: { x: 120, y: -170 } })
   const [isDragging, setIsDragging] = useState(false)
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
@@ -53,6 +73,10 @@ const BikeVisualization = ({
   const [riderVisible, setRiderVisible] = useState(true)
   const [measurementsExpanded, setMeasurementsExpanded] = useState(false)
   const [lastTouchDistance, setLastTouchDistance] = useState<number | null>(null)
+  const [pngWidth, setPngWidth] = useState<PngExportWidth>(PNG_EXPORT_WIDTHS[1])
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [pedalSweepOpen, setPedalSweepOpen] = useState(false)
+  const [kopsMode, setKopsMode] = useState(false)
   const svgRef = useRef<SVGSVGElement>(null)
 
   const { zoom, pan } = viewState
@@ -199,13 +223,32 @@ const BikeVisualization = ({
     }
   }
 
+  // Im KOPS-Modus steht die Kurbel fest auf 3 Uhr
+  const atKopsAngle = (bike: BikeData): BikeData =>
+    kopsMode ? { ...bike, cockpit: { ...bike.cockpit, pedalAngle: KOPS_PEDAL_ANGLE } } : bike
+
   const geometryA: BikeGeometryResult | null = bikeA
-    ? calculateBikeGeometry(bikeA)
+    ? calculateBikeGeometry(atKopsAngle(bikeA))
     : null
   const geometryB: BikeGeometryResult | null = bikeB
-    ? calculateBikeGeometry(bikeB)
+    ? calculateBikeGeometry(atKopsAngle(bikeB))
     : null
 
+  const findingsA: FitFinding[] = geometryA ? evaluateFit(geometryA, thresholds) : []
+  const checkFindings = CHECK_ORDER.flatMap((id) => {
+    const finding = findFinding(findingsA, id)
+    if (!finding || (finding.requiresRider && !riderVisible)) return []
+    return CHECK_ALWAYS_VISIBLE.includes(id) || finding.rating !== 'green' ? [finding] : []
+  })
+  /** Ampelstufe einer Kennzahl für die Kacheln (ohne Fahrer nur fahrerunabhängige Werte). */
+  const ratingOf = (id: FitMetricId) => {
+    const finding = findFinding(findingsA, id)
+    return finding && (riderVisible || !finding.requiresRider) ? finding.rating : undefined
+  }
+
+  const kopsA: KopsAnalysis | null = kopsMode && bikeA ? analyzeKops(bikeA) : null
+  const kopsB: KopsAnalysis | null = kopsMode && bikeB ? analyzeKops(bikeB) : null
+
   // Immer alle Punkte für die ViewBox-Berechnung verwenden, unabhängig von riderVisible
   const allPoints = [
     ...(geometryA ? Object.values(geometryA.points) : []),
@@ -255,6 +298,61 @@ const BikeVisualization = ({
     }
   }
 
+  /** Eigenständiges SVG der aktuellen Ansicht – unabhängig von Zoom/Pan. */
+  const buildExportSvg = () => {
+    const legend: SideViewLegendEntry[] = [
+      ...(bikeA ? [{ label: `A: ${bikeA.brand} ${bikeA.model} (${bikeA.size})`, color: BIKE_COLORS.A }] : []),
+      ...(bikeB ? [{ label: `B: ${bikeB.brand} ${bikeB.model} (${bikeB.size})`, color: BIKE_COLORS.B }] : []),
+      ...(riderVisible ? [{ label: 'Fahrer', color: '#22c55e' }] : []),
+    ]
+    return renderSideViewSvg(
+      [
+        ...(geometryA ? [{ result: geometryA, color: BIKE_COLORS.A }] : []),
+        ...(geometryB ? [{ result: geometryB, color: BIKE_COLORS.B }] : []),
+      ],
+      {
+        showRider: riderVisible,
+        background: '#ffffff',
+        measureLine: measureLine && { ...measureLine, distance: measureDistance, dx: measureDx, dy: measureDy },
+        legend,
+      }
+    )
+  }
+
+  const exportFileName = (extension: string) =>
+    `${toFileSlug('velometric', ...(bikeA ? [bikeA.model, bikeA.size] : []), ...(bikeB ? ['vs', bikeB.model, bikeB.size] : []))}.${extension}`
+
+  const handleExportSvg = () => {
+    downloadBlob(new Blob([buildExportSvg()], { type: 'image/svg+xml;charset=utf-8' }), exportFileName('svg'))
+  }
+
+  const handleExportPng = async () => {
+    setExportError(null)
+    try {
+      downloadBlob(await svgToPngBlob(buildExportSvg(), pngWidth), exportFileName('png'))
+    } catch {
+      setExportError('PNG-Export fehlgeschlagen – SVG-Export verwenden.')
+    }
+  }
+
+  /** KOPS: Lot vom Knie, Abstand zur Pedalachse und Marke am Fußballen. */
+  const renderKops = (kops: KopsAnalysis, color: string, row: number) => {
+    const plumbBottom = kops.spindle.y + 40
+    const labelY = kops.spindle.y + 25 + row * 18
+    const offset = kops.offsets.spindle
+    return (
+      <g pointerEvents="none">
+        <line x1={kops.knee.x} y1={kops.knee.y} x2={kops.knee.x} y2={plumbBottom} stroke={color} strokeWidth="1.5" strokeDasharray="4,3" />
+        <line x1={kops.spindle.x} y1={labelY - 4} x2={kops.knee.x} y2={labelY - 4} stroke={color} strokeWidth="1" />
+        <circle cx={kops.spindle.x} cy={kops.spindle.y} r="4" fill="none" stroke={color} strokeWidth="1.5" />
+        <line x1={kops.ballOfFoot.x} y1={kops.ballOfFoot.y - 6} x2={kops.ballOfFoot.x} y2={kops.ballOfFoot.y + 6} stroke={color} strokeWidth="1.5" />
+        <text x={Math.max(kops.knee.x, kops.spindle.x) + 6} y={labelY} fill={color} fontSize="11" fontWeight="bold">
+          KOPS {offset >= 0 ? '+' : ''}{offset.toFixed(1)} mm · Ballen {kops.offsets.ballOfFoot >= 0 ? '+' : ''}{kops.offsets.ballOfFoot.toFixed(1)} mm
+        </text>
+      </g>
+    )
+  }
+
   const renderBike = (
     result: BikeGeometryResult,
     color: string,
@@ -496,6 +594,10 @@ const BikeVisualization = ({
           <g transform={`translate(${pan.x / zoom}, ${pan.y / zoom}) scale(${zoom})`}>
             {geometryA && renderBike(geometryA, '#e74c3c', 0.7, 'A')}
             {geometryB && renderBike(geometryB, '#3498db', 0.7, 'B')}
+
+            {/* KOPS-Lot vom Knie bei 3 Uhr */}
+            {riderVisible && kopsA && renderKops(kopsA, BIKE_COLORS.A, 0)}
+            {riderVisible && kopsB && renderKops(kopsB, BIKE_COLORS.B, 1)}
             
             {/* Messlinie */}
             {measureLine && (
@@ -619,6 +721,66 @@ const BikeVisualization = ({
           >
             {measurementsExpanded ? '▼ Einklappen' : '▲ Messungen'}
           </button>
+          {/* KOPS Mode Toggle */}
+          <button
+            onClick={() => {
+              setKopsMode(!kopsMode)
+              if (!kopsMode) setIsPedaling(false)
+            }}
+            className={`w-32 px-2 py-1 rounded text-xs font-medium transition-colors ${
+              kopsMode
+                ? 'bg-[#8e44ad] text-white'
+                : 'bg-muted hover:bg-muted/80'
+            }`}
+            title="Knie-Lot bei 3 Uhr relativ zu Pedalachse und Fußballen"
+          >
+            {kopsMode ? '⊥ KOPS An' : '⊥ KOPS Aus'}
+          </button>
+          {/* Pedal Sweep */}
+          <button
+            onClick={() => setPedalSweepOpen(true)}
+            className="w-32 px-2 py-1 rounded text-xs font-medium transition-colors bg-muted hover:bg-muted/80"
+            title="Gelenkwinkel über eine volle Kurbelumdrehung"
+          >
+            📈 Pedalzyklus
+          </button>
+          {/* Export */}
+          <div className="flex w-32 gap-1">
+            <button
+              onClick={handleExportSvg}
+              className="flex-1 px-2 py-1 rounded text-xs font-medium transition-colors bg-muted hover:bg-muted/80"
+              title="Ansicht als SVG speichern"
+            >
+              ⬇ SVG
+            </button>
+            <button
+              onClick={handleExportPng}
+              className="flex-1 px-2 py-1 rounded text-xs font-medium transition-colors bg-muted hover:bg-muted/80"
+              title={`Ansicht als PNG (${pngWidth} px breit) speichern`}
+            >
+              ⬇ PNG
+            </button>
+          </div>
+          <select
+            value={pngWidth}
+            onChange={(e) => setPngWidth(Number(e.target.value) as PngExportWidth)}
+            className="w-32 px-1 py-1 rounded text-xs bg-muted border-0"
+            title="PNG-Auflösung"
+          >
+            {PNG_EXPORT_WIDTHS.map((w) => (
+              <option key={w} value={w}>PNG {w} px</option>
+            ))}
+          </select>
+          {exportError && (
+            <button
+              type="button"
+              onClick={() => setExportError(null)}
+              className="w-32 text-left text-[10px] text-destructive"
+              title="Hinweis schließen"
+            >
+              {exportError}
+            </button>
+          )}
           {/* Bike Info */}
           {bikeA && (
             <div className="flex items-center gap-1.5 mt-2 pt-2 border-t border-border">
@@ -650,210 +812,15 @@ const BikeVisualization = ({
         }}
       >
         <Card className="p-4 overflow-y-auto max-h-96">
-          <h3 className="text-sm font-semibold mb-2">Biomechanik Check</h3>
+          <h3 className="text-sm font-semibold mb-2">
+            Biomechanik Check
+            <span className="ml-1.5 font-normal text-xs text-muted-foreground">Profil: {thresholdProfile.name}</span>
+          </h3>
           <div className="text-xs text-muted-foreground">
 
-            {/* Überhöhung Ampel + Info */}
-            {geometryA?.saddleHandlebarDrop !== undefined && (() => {
-              const drop = geometryA.saddleHandlebarDrop;
-              const isRed = drop > SADDLE_HANDLEBAR_DROP_CRITICAL;
-              const isYellow = !isRed && drop > SADDLE_HANDLEBAR_DROP_WARNING;
-              let ampelColor = isRed ? '#e74c3c' : isYellow ? '#f39c12' : '#22c55e';
-              let ampelText = isRed
-                ? (<span><b>Überhöhung: {drop.toFixed(0)}mm</b> – Aggressive Position</span>)
-                : isYellow
-                  ? (<span><b>Überhöhung: {drop.toFixed(0)}mm</b> – Sportliche Position</span>)
-                  : (<span><b>Überhöhung: {drop.toFixed(0)}mm</b></span>);
-              let tooltipText = isRed
-                ? 'Sehr große Überhöhung: Aggressive Sitzposition, Nackenprobleme und Komforteinbußen möglich.'
-                : isYellow
-                  ? 'Erhöhte Überhöhung: Sportliche Sitzposition, Komfort leicht reduziert.'
-                  : 'Überhöhung im optimalen Bereich: Komfort und Effizienz sind gut ausbalanciert.';
-              return (
-                <div className="flex items-center w-full pr-2">
-                  <span
-                    className="w-4 h-4 rounded-full border border-border flex-shrink-0"
-                    style={{ backgroundColor: ampelColor }}
-                  />
-                  <span className="font-medium text-xs ml-2">{ampelText}</span>
-                  <span className="flex-1" />
-                  {(isRed || isYellow) && (
-                    <TooltipProvider>
-                      <Tooltip>
-                        <TooltipTrigger asChild>
-                          <HelpCircle className="h-4 w-4 text-muted-foreground/50 hover:text-foreground cursor-help transition-colors" />
-                        </TooltipTrigger>
-                        <TooltipContent>
-                          <p className="max-w-[200px]">{tooltipText}</p>
-                        </TooltipContent>
-                      </Tooltip>
-                    </TooltipProvider>
-                  )}
-                </div>
-              );
-            })()}
-
-            {/* Kniewinkel 90° Ampel + Info (nur wenn Fahrer sichtbar) */}
-            {riderVisible && geometryA?.kneeAngleAt90 !== undefined && (
-              <div className="flex items-center w-full pr-2 mt-2">
-                <span
-                  className="w-4 h-4 rounded-full border border-border flex-shrink-0"
-                  style={{ backgroundColor:
-                    geometryA.kneeAngleAt90 <= KNEE_90_MIN || geometryA.kneeAngleAt90 >= KNEE_90_MAX
-                      ? '#e74c3c'
-                      : (geometryA.kneeAngleAt90 < KNEE_90_MIN_WARNING || geometryA.kneeAngleAt90 > KNEE_90_MAX_WARNING
-                          ? '#f39c12'
-                          : '#22c55e')
-                  }}
-                />
-                <span className="font-medium text-xs ml-2">
-                  <b>Kniewinkel Unten (6 Uhr): </b>
-                  {`${geometryA.kneeAngleAt90.toFixed(1)}°`}
-                </span>
-                <span className="flex-1" />
-                {(geometryA.kneeAngleAt90 <= KNEE_90_MIN || geometryA.kneeAngleAt90 >= KNEE_90_MAX || geometryA.kneeAngleAt90 < KNEE_90_MIN_WARNING || geometryA.kneeAngleAt90 > KNEE_90_MAX_WARNING) && (
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <HelpCircle className="h-4 w-4 text-muted-foreground/50 hover:text-foreground cursor-help transition-colors" />
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p className="max-w-[200px]">
-                          {geometryA.kneeAngleAt90 <= KNEE_90_MIN || geometryA.kneeAngleAt90 >= KNEE_90_MAX
-                            ? 'Kniewinkel bei 90° ist außerhalb des empfohlenen Bereichs. Risiko für Über- oder Unterstreckung.'
-                            : 'Kniewinkel bei 90° ist grenzwertig. Leichte Anpassungen könnten sinnvoll sein.'}
-                        </p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                )}
-              </div>
-            )}
-
-            {/* Kniewinkel 270° Ampel + Info */}
-            {riderVisible && geometryA?.kneeAngleAt270 !== undefined && (() => {
-              const angle = geometryA.kneeAngleAt270;
-              const isRed = angle <= KNEE_270_MIN;
-              const isYellow = !isRed && angle < KNEE_270_MIN_WARNING;
-              let ampelColor = isRed ? '#e74c3c' : isYellow ? '#f39c12' : '#22c55e';
-              let ampelText = isRed
-                ? (<span><b>Kniewinkel Oben (12 Uhr): {angle.toFixed(1)}°</b> – Zu klein</span>)
-                : isYellow
-                  ? (<span><b>Kniewinkel Oben (12 Uhr): {angle.toFixed(1)}°</b> – Grenzwertig</span>)
-                  : (<span><b>Kniewinkel Oben (12 Uhr): {angle.toFixed(1)}°</b></span>);
-              let tooltipText = isRed
-                ? 'Kniewinkel bei Oben° ist zu klein. Risiko für Überstreckung des Knies.'
-                : isYellow
-                  ? 'Kniewinkel bei Oben° ist grenzwertig. Leichte Anpassungen könnten sinnvoll sein.'
-                  : 'Kniewinkel bei Oben° im optimalen Bereich.';
-              return (
-                <div className="flex items-center w-full pr-2 mt-2">
-                  <span
-                    className="w-4 h-4 rounded-full border border-border flex-shrink-0"
-                    style={{ backgroundColor: ampelColor }}
-                  />
-                  <span className="font-medium text-xs ml-2">{ampelText}</span>
-                  <span className="flex-1" />
-                  {(isRed || isYellow) && (
-                    <TooltipProvider>
-                      <Tooltip>
-                        <TooltipTrigger asChild>
-                          <HelpCircle className="h-4 w-4 text-muted-foreground/50 hover:text-foreground cursor-help transition-colors" />
-                        </TooltipTrigger>
-                        <TooltipContent>
-                          <p className="max-w-[200px]">{tooltipText}</p>
-                        </TooltipContent>
-                      </Tooltip>
-                    </TooltipProvider>
-                  )}
-                </div>
-              );
-            })()}
-
-            {/* unrealistische Radgeometrie */}
-            {riderVisible && geometryA?.ankleAngleAt270 !== undefined && geometryA.ankleAngleAt270 < ANKLE_MIN && (
-              <div className="flex items-center w-full mt-2">
-                <span className="w-4 h-4 flex items-center justify-center rounded-full border border-border flex-shrink-0 bg-white" style={{ position: 'relative' }}>
-                  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-                    <circle cx="8" cy="8" r="7" stroke="#e74c3c" strokeWidth="2" fill="#fff" />
-                    <rect x="3.5" y="7" width="9" height="2" rx="1" fill="#e74c3c" />
-                  </svg>
-                </span>
-                <span className="font-medium text-xs ml-2"><b>unrealistische Radgeometrie</b></span>
-                <span className="flex-1" />
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <HelpCircle className="h-4 w-4 text-muted-foreground/50 hover:text-foreground cursor-help transition-colors" />
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p className="max-w-[200px]">Sprunggelenkwinkel bei 270° ist zu klein. Die Geometrie ist biomechanisch nicht realistisch umsetzbar.</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
-              </div>
-            )}
-
-            {/* Sattel zu hoch / Bein zu kurz */}
-            {riderVisible && geometryA?.kneeAngleAt90 !== undefined && (() => {
-              const angle = geometryA.kneeAngleAt90;
-              const isRed = angle >= 180;
-              if (!isRed) return null;
-              let ampelText = (<span><b>Sattel zu hoch / Bein zu kurz</b></span>);
-              let tooltipText = 'Das Bein ist zu kurz (kürzer als für Körpergrösse angegeben). Dadurch ist diese Position nicht realistisch umsetzbar. Der Sattel sollte abgesenkt oder die Beinlänge überprüft werden.';
-              return (
-                <div className="flex items-center w-full pr-2 mt-2">
-                  <span className="w-4 h-4 flex items-center justify-center rounded-full border border-border flex-shrink-0 bg-white" style={{ position: 'relative' }}>
-                    <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <circle cx="8" cy="8" r="7" stroke="#e74c3c" strokeWidth="2" fill="#fff" />
-                      <rect x="3.5" y="7" width="9" height="2" rx="1" fill="#e74c3c" />
-                    </svg>
-                  </span>
-                  <span className="font-medium text-xs ml-2">{ampelText}</span>
-                  <span className="flex-1" />
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <HelpCircle className="h-4 w-4 text-muted-foreground/50 hover:text-foreground cursor-help transition-colors" />
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p className="max-w-[200px]">{tooltipText}</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
-              );
-            })()}
-
-            {/* Knie lotet vor Pedalachse */}
-            {riderVisible && geometryA?.kneeTopedalXAt0 !== undefined && (() => {
-              const distance = geometryA.kneeTopedalXAt0;
-              const isYellow = distance < KNEE_PEDAL_X_MIN_WARNING;
-              if (!isYellow) return null;
-              let ampelColor = '#f39c12';
-              let ampelText = (<span><b>Knie lotet vor Pedalachse: {distance.toFixed(0)}mm</b> – Grenzwertig</span>);
-              let tooltipText = 'Knie zu Pedal Abstand ist grenzwertig gering. Risiko für ungünstige Kraftübertragung.';
-              return (
-                <div className="flex items-center w-full pr-2 mt-2">
-                  <span
-                    className="w-4 h-4 rounded-full border border-border flex-shrink-0"
-                    style={{ backgroundColor: ampelColor }}
-                  />
-                  <span className="font-medium text-xs ml-2">{ampelText}</span>
-                  <span className="flex-1" />
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <HelpCircle className="h-4 w-4 text-muted-foreground/50 hover:text-foreground cursor-help transition-colors" />
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p className="max-w-[200px]">{tooltipText}</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
-              );
-            })()}
+            {checkFindings.map((finding) => (
+              <FindingRow key={finding.id} finding={finding} />
+            ))}
           </div>
         </Card>
 
@@ -896,19 +863,10 @@ const BikeVisualization = ({
           {/* Knee Angle at 90° */}
           {riderVisible && geometryA?.kneeAngleAt90 !== undefined && (() => {
             const angle = geometryA.kneeAngleAt90
-            const isRed = angle <= KNEE_90_MIN || angle >= KNEE_90_MAX
-            const isYellow = !isRed && (angle < KNEE_90_MIN_WARNING || angle > KNEE_90_MAX_WARNING)
             return (
               <div 
                 className="px-2 py-1 rounded text-[10px]"
-                style={{
-                  backgroundColor: isRed 
-                    ? 'hsl(0 84% 60%)' 
-                    : isYellow 
-                      ? 'hsl(45 93% 47%)'
-                      : 'hsl(var(--muted) / 0.5)',
-                  color: isRed || isYellow ? 'white' : 'inherit'
-                }}
+                style={tileStyle(ratingOf('kneeAngleAt90'))}
               >
                 <span className="font-medium">@ 90°: </span>
                 <span className="font-bold">{angle.toFixed(1)}°</span>
@@ -919,19 +877,10 @@ const BikeVisualization = ({
           {/* Knee Angle at 270° */}
           {riderVisible && geometryA?.kneeAngleAt270 !== undefined && (() => {
             const angle = geometryA.kneeAngleAt270
-            const isRed = angle <= KNEE_270_MIN
-            const isYellow = !isRed && angle < KNEE_270_MIN_WARNING
             return (
               <div 
                 className="px-2 py-1 rounded text-[10px]"
-                style={{
-                  backgroundColor: isRed 
-                    ? 'hsl(0 84% 60%)' 
-                    : isYellow 
-                      ? 'hsl(45 93% 47%)'
-                      : 'hsl(var(--muted) / 0.5)',
-                  color: isRed || isYellow ? 'white' : 'inherit'
-                }}
+                style={tileStyle(ratingOf('kneeAngleAt270'))}
               >
                 <span className="font-medium">@ 270°: </span>
                 <span className="font-bold">{angle.toFixed(1)}°</span>
@@ -939,22 +888,26 @@ const BikeVisualization = ({
             )
           })()}
           
+          {/* Hip Angle (closed/open across the stroke) */}
+          {riderVisible && geometryA?.hipAngleMin !== undefined && geometryA.hipAngleMax !== undefined && (
+            <div 
+              className="px-2 py-1 rounded text-[10px]"
+              style={tileStyle(ratingOf('hipAngleMin'))}
+            >
+              <span className="font-medium">Hüftwinkel: </span>
+              <span className="font-bold">
+                {geometryA.hipAngle?.toFixed(1)}° (@ 270°: {geometryA.hipAngleAt270?.toFixed(1)}°, {geometryA.hipAngleMin.toFixed(0)}–{geometryA.hipAngleMax.toFixed(0)}°)
+              </span>
+            </div>
+          )}
+          
           {/* Saddle-Handlebar Drop (Überhöhung) */}
           {geometryA?.saddleHandlebarDrop !== undefined && (() => {
             const drop = geometryA.saddleHandlebarDrop
-            const isRed = drop > SADDLE_HANDLEBAR_DROP_CRITICAL
-            const isYellow = !isRed && drop > SADDLE_HANDLEBAR_DROP_WARNING
             return (
               <div 
                 className="px-2 py-1 rounded text-[10px]"
-                style={{
-                  backgroundColor: isRed 
-                    ? 'hsl(0 84% 60%)' 
-                    : isYellow 
-                      ? 'hsl(45 93% 47%)'
-                      : 'hsl(var(--muted) / 0.5)',
-                  color: isRed || isYellow ? 'white' : 'inherit'
-                }}
+                style={tileStyle(ratingOf('saddleHandlebarDrop'))}
               >
                 <span className="font-medium">Überhöhung: </span>
                 <span className="font-bold">{drop.toFixed(0)} mm</span>
@@ -965,12 +918,7 @@ const BikeVisualization = ({
           {/* Knee to Pedal X Distance at 0° */}
             <div 
               className="px-2 py-1 rounded text-[10px]"
-              style={{
-                backgroundColor: riderVisible && geometryA?.kneeTopedalXAt0 !== undefined && geometryA.kneeTopedalXAt0 < KNEE_PEDAL_X_MIN_WARNING
-                  ? 'hsl(45 93% 47%)'
-                  : 'hsl(var(--muted) / 0.5)',
-                color: riderVisible && geometryA?.kneeTopedalXAt0 !== undefined && geometryA.kneeTopedalXAt0 < KNEE_PEDAL_X_MIN_WARNING ? 'white' : 'inherit'
-              }}
+              style={tileStyle(ratingOf('kneeTopedalXAt0'))}
             >
               <span className="font-medium">Knie→Pedal @ 0°: </span>
               <span className="font-bold">
@@ -983,14 +931,7 @@ const BikeVisualization = ({
           {/* Shoulder Angle */}
             <div 
               className="px-2 py-1 rounded text-[10px]"
-              style={{
-                backgroundColor: riderVisible && geometryA?.shoulderAngle !== undefined && (geometryA.shoulderAngle < SHOULDER_ANGLE_MIN || geometryA.shoulderAngle > SHOULDER_ANGLE_MAX)
-                  ? 'hsl(0 84% 60%)'
-                  : riderVisible && geometryA?.shoulderAngle !== undefined && ((geometryA.shoulderAngle >= SHOULDER_ANGLE_MIN && geometryA.shoulderAngle < SHOULDER_ANGLE_MIN_WARNING) || (geometryA.shoulderAngle > SHOULDER_ANGLE_MAX_WARNING && geometryA.shoulderAngle <= SHOULDER_ANGLE_MAX))
-                    ? 'hsl(45 93% 47%)'
-                    : 'hsl(var(--muted) / 0.5)',
-                color: riderVisible && geometryA?.shoulderAngle !== undefined && (geometryA.shoulderAngle < SHOULDER_ANGLE_MIN || geometryA.shoulderAngle > SHOULDER_ANGLE_MAX || (geometryA.shoulderAngle >= SHOULDER_ANGLE_MIN && geometryA.shoulderAngle < SHOULDER_ANGLE_MIN_WARNING) || (geometryA.shoulderAngle > SHOULDER_ANGLE_MAX_WARNING && geometryA.shoulderAngle <= SHOULDER_ANGLE_MAX)) ? 'white' : 'inherit'
-              }}
+              style={tileStyle(ratingOf('shoulderAngle'))}
             >
               <span className="font-medium">Schulterwinkel: </span>
               <span className="font-bold">
@@ -1003,14 +944,7 @@ const BikeVisualization = ({
           {/* Elbow Angle */}
             <div 
               className="px-2 py-1 rounded text-[10px]"
-              style={{
-                backgroundColor: riderVisible && geometryA?.elbowAngle !== undefined && geometryA.elbowAngle > ELBOW_ANGLE_CRITICAL
-                  ? 'hsl(0 84% 60%)'
-                  : riderVisible && geometryA?.elbowAngle !== undefined && ((geometryA.elbowAngle >= ELBOW_ANGLE_MAX_WARNING && geometryA.elbowAngle <= ELBOW_ANGLE_CRITICAL) || geometryA.elbowAngle < ELBOW_ANGLE_MIN_WARNING)
-                    ? 'hsl(45 93% 47%)'
-                    : 'hsl(var(--muted) / 0.5)',
-                color: riderVisible && geometryA?.elbowAngle !== undefined && (geometryA.elbowAngle > ELBOW_ANGLE_CRITICAL || (geometryA.elbowAngle >= ELBOW_ANGLE_MAX_WARNING && geometryA.elbowAngle <= ELBOW_ANGLE_CRITICAL) || geometryA.elbowAngle < ELBOW_ANGLE_MIN_WARNING) ? 'white' : 'inherit'
-              }}
+              style={tileStyle(ratingOf('elbowAngle'))}
             >
               <span className="font-medium">Ellbogenwinkel: </span>
               <span className="font-bold">
@@ -1022,6 +956,49 @@ const BikeVisualization = ({
           </div>
         </Card>
       </div>
+
+      <PedalSweepDialog open={pedalSweepOpen} onOpenChange={setPedalSweepOpen} bikeA={bikeA} bikeB={bikeB} />
+    </div>
+  )
+}
+
+/** Ampelzeile im Biomechanik-Check; Begründung und Anpassung im Tooltip. */
+const FindingRow = ({ finding }: { finding: FitFinding }) => {
+  const value = finding.unit === 'mm' ? `${finding.value.toFixed(0)}mm` : `${finding.value.toFixed(1)}°`
+  return (
+    <div className="flex items-center w-full pr-2 mt-2 first:mt-0">
+      {finding.implausible ? (
+        <span className="w-4 h-4 flex items-center justify-center rounded-full border border-border flex-shrink-0 bg-white">
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <circle cx="8" cy="8" r="7" stroke="#e74c3c" strokeWidth="2" fill="#fff" />
+            <rect x="3.5" y="7" width="9" height="2" rx="1" fill="#e74c3c" />
+          </svg>
+        </span>
+      ) : (
+        <span
+          className="w-4 h-4 rounded-full border border-border flex-shrink-0"
+          style={{ backgroundColor: RATING_COLORS[finding.rating] }}
+        />
+      )}
+      <span className="font-medium text-xs ml-2">
+        {finding.implausible
+          ? <span><b>{finding.status}</b> ({value})</span>
+          : <span><b>{finding.label}: {value}</b>{finding.status && ` – ${finding.status}`}</span>}
+      </span>
+      <span className="flex-1" />
+      {finding.rating !== 'green' && (
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <HelpCircle className="h-4 w-4 text-muted-foreground/50 hover:text-foreground cursor-help transition-colors" />
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="max-w-[200px]">{finding.reason}</p>
+              {finding.adjustment && <p className="max-w-[200px] mt-1 font-medium">→ {finding.adjustment.hint}</p>}
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      )}
     </div>
   )
 }
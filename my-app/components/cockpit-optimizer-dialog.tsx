@@ -0,0 +1,230 @@
+'use client'
+
+import { useState } from 'react'
+import type { BikeData } from '@/types/bike'
+import { calculateBikeGeometry } from '@/lib/bike-geometry'
+import { evaluateFit } from '@/lib/fit-evaluation'
+import {
+  DEFAULT_METRIC_WEIGHTS,
+  OPTIMIZER_FIELDS,
+  optimizeCockpit,
+  type MetricWeights,
+  type OptimizedSetup,
+  type OptimizerField,
+} from '@/lib/cockpit-optimizer'
+import { RATING_COLORS } from '@/lib/metric-ratings'
+import { COCKPIT_FIELD_INFO } from '@/lib/setup-fields'
+import type { FitThresholds } from '@/lib/threshold-profiles'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useStaticBike } from '@/hooks/use-static-bike'
+
+type CockpitOptimizerDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bikeA: BikeData
+  bikeB: BikeData | null
+  thresholds?: FitThresholds
+  onLoad: (slot: 'A' | 'B', bike: BikeData) => void
+}
+
+const LIMIT_OPTIONS = [1, 3, 5, 8]
+
+const fieldLabel = (field: OptimizerField) => COCKPIT_FIELD_INFO.find((info) => info.key === field)?.label ?? field
+
+/** Sucht die besten Cockpit-Setups über alle Kennzahlen, mit gesperrten Feldern und Gewichten. */
+export function CockpitOptimizerDialog({ open, onOpenChange, bikeA, bikeB, thresholds, onLoad }: CockpitOptimizerDialogProps) {
+  const [sourceSlot, setSourceSlot] = useState<'A' | 'B'>('A')
+  const [weights, setWeights] = useState<MetricWeights>(DEFAULT_METRIC_WEIGHTS)
+  const [locked, setLocked] = useState<OptimizerField[]>([])
+  const [limit, setLimit] = useState(3)
+
+  const source = sourceSlot === 'B' && bikeB ? bikeB : bikeA
+  const staticSource = useStaticBike(source)
+
+  // Ergebnis gilt nur für die Eingaben, mit denen es berechnet wurde – die Kurbelstellung zählt nicht
+  const [computed, setComputed] = useState<{
+    bike: BikeData
+    thresholds?: FitThresholds
+    weights: MetricWeights
+    locked: OptimizerField[]
+    limit: number
+    results: OptimizedSetup[]
+  } | null>(null)
+  const results =
+    computed &&
+    computed.bike === staticSource &&
+    computed.thresholds === thresholds &&
+    computed.weights === weights &&
+    computed.locked === locked &&
+    computed.limit === limit
+      ? computed.results
+      : null
+  const currentFindings = evaluateFit(calculateBikeGeometry(source), thresholds)
+
+  const toggleLocked = (field: OptimizerField) =>
+    setLocked(locked.includes(field) ? locked.filter((entry) => entry !== field) : [...locked, field])
+
+  const setWeight = (id: keyof MetricWeights, value: string) => {
+    const weight = Number(value)
+    if (!Number.isFinite(weight) || weight < 0) return
+    setWeights({ ...weights, [id]: weight })
+  }
+
+  const handleLoad = (slot: 'A' | 'B', setup: OptimizedSetup) => {
+    // Rahmen und Fahrer stammen aus dem Ausgangs-Bike, die Kurbelstellung bleibt die aktuelle
+    onLoad(slot, { ...source, cockpit: { ...setup.cockpit, pedalAngle: source.cockpit.pedalAngle } })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bestes Setup finden</DialogTitle>
+          <DialogDescription>
+            Variiert alle Cockpit-Werte innerhalb der Grenzen und bewertet jede Kombination gewichtet gegen die aktiven
+            Warnschwellen. Gesperrte Felder bleiben unverändert.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex items-end gap-3">
+            {bikeB && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground font-medium">Ausgangs-Bike</Label>
+                <Select value={sourceSlot} onValueChange={(value) => setSourceSlot(value as 'A' | 'B')}>
+                  <SelectTrigger className="h-8 w-56 text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="A">A: {bikeA.brand} {bikeA.model} ({bikeA.size})</SelectItem>
+                    <SelectItem value="B">B: {bikeB.brand} {bikeB.model} ({bikeB.size})</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground font-medium">Anzahl Setups</Label>
+              <Select value={String(limit)} onValueChange={(value) => setLimit(Number(value))}>
+                <SelectTrigger className="h-8 w-20 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {LIMIT_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1" />
+            <Button size="sm" variant="ghost" onClick={() => setWeights(DEFAULT_METRIC_WEIGHTS)}>
+              Standardgewichte
+            </Button>
+            <Button
+              size="sm"
+              onClick={() =>
+                setComputed({
+                  bike: staticSource,
+                  thresholds,
+                  weights,
+                  locked,
+                  limit,
+                  results: optimizeCockpit(staticSource, { thresholds, weights, locked, limit }),
+                })
+              }
+            >
+              Optimieren
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {/* Gewichte je Kennzahl: 0 = ignorieren */}
+            <div className="space-y-1.5 p-2 bg-muted/30 rounded-md border border-border/50">
+              <div className="text-xs font-medium">Gewichtung</div>
+              {currentFindings.map((finding) => (
+                <label key={finding.id} className="flex items-center gap-2 text-xs">
+                  <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: RATING_COLORS[finding.rating] }} />
+                  <span className="flex-1 text-muted-foreground">{finding.label}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={weights[finding.id]}
+                    onChange={(e) => setWeight(finding.id, e.target.value)}
+                    className="h-7 w-16 px-1 text-xs"
+                  />
+                </label>
+              ))}
+            </div>
+
+            {/* Gesperrte Felder */}
+            <div className="space-y-1.5 p-2 bg-muted/30 rounded-md border border-border/50">
+              <div className="text-xs font-medium">Fest (nicht verändern)</div>
+              <div className="grid grid-cols-2 gap-1">
+                {OPTIMIZER_FIELDS.map((field) => (
+                  <label key={field} className="flex items-center gap-1.5 text-xs">
+                    <input type="checkbox" checked={locked.includes(field)} onChange={() => toggleLocked(field)} />
+                    <span>{fieldLabel(field)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {results && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold uppercase tracking-wider">Ergebnisse</h4>
+              {results.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Keine Setups gefunden – weniger Felder sperren.</p>
+              ) : (
+                <ul className="space-y-2 text-xs">
+                  {results.map((setup, index) => (
+                    <li key={index} className="space-y-1 rounded border border-border/50 px-2 py-1.5">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">Setup {index + 1}</span>
+                        <span className="text-muted-foreground">
+                          Score {setup.score.toFixed(1)}{setup.paretoOptimal ? ' · Pareto-optimal' : ''}
+                        </span>
+                        <span className="flex flex-1 gap-0.5">
+                          {setup.findings.map((finding) => (
+                            <span
+                              key={finding.id}
+                              title={`${finding.label}: ${finding.value.toFixed(1)}${finding.unit === 'mm' ? ' mm' : '°'}`}
+                              className="inline-block h-2 w-2 rounded-full"
+                              style={{ backgroundColor: RATING_COLORS[finding.rating] }}
+                            />
+                          ))}
+                        </span>
+                        <Button size="xs" variant="outline" onClick={() => handleLoad('A', setup)}>In A</Button>
+                        <Button size="xs" variant="outline" onClick={() => handleLoad('B', setup)}>In B</Button>
+                      </div>
+                      <div className="text-muted-foreground">
+                        {setup.changes.length === 0
+                          ? 'Keine Änderung – aktuelles Setup ist bereits am besten.'
+                          : setup.changes
+                              .map(({ label, unit, before, after }) => `${label} ${before} → ${after} ${unit}`)
+                              .join(', ')}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { BikeData, CockpitSetup } from '@/types/bike'
+import {
+  getHandlebarPosition,
+  HANDLEBAR_REFERENCE_LABELS,
+  solveCockpitForHandlebar,
+  type HandlebarReference,
+} from '@/lib/cockpit-solver'
+import { useStaticBike } from '@/hooks/use-static-bike'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type CockpitSolverProps = {
+  bike: BikeData
+  onApply: (values: Pick<CockpitSetup, 'stemLength' | 'stemAngle' | 'spacerHeight'>) => void
+}
+
+/** Vorbau + Spacer aus einer Ziel-Lenkerposition (relativ zu Tretlager oder Sattel). */
+export function CockpitSolver({ bike, onApply }: CockpitSolverProps) {
+  const [reference, setReference] = useState<HandlebarReference>('bb')
+  const [target, setTarget] = useState(() => roundPosition(getHandlebarPosition(bike, 'bb')))
+
+  // Lösung hängt nicht von der Kurbelstellung ab – beim Pedalieren nicht neu rechnen
+  const staticBike = useStaticBike(bike)
+  const solutions = useMemo(
+    () => solveCockpitForHandlebar(staticBike, { ...target, reference }),
+    [staticBike, target, reference]
+  )
+
+  const handleReferenceChange = (value: HandlebarReference) => {
+    setReference(value)
+    setTarget(roundPosition(getHandlebarPosition(bike, value)))
+  }
+
+  return (
+    <div className="space-y-2 p-2 bg-muted/30 rounded-md border border-border/50 text-[11px]">
+      <div className="flex items-center gap-1.5">
+        <span className="font-medium flex-1">Vorbau aus Lenkerposition</span>
+        <Button
+          size="xs"
+          variant="ghost"
+          onClick={() => setTarget(roundPosition(getHandlebarPosition(bike, reference)))}
+          title="Aktuelle Lenkerposition übernehmen"
+        >
+          Aktuell
+        </Button>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <Select value={reference} onValueChange={(v) => handleReferenceChange(v as HandlebarReference)}>
+          <SelectTrigger className="w-24 px-2 text-xs data-[size=sm]:h-7" size="sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(HANDLEBAR_REFERENCE_LABELS) as HandlebarReference[]).map((key) => (
+              <SelectItem key={key} value={key}>ab {HANDLEBAR_REFERENCE_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span>X</span>
+        <Input
+          type="number"
+          aria-label="Ziel X (mm)"
+          value={target.x}
+          onChange={(e) => setTarget({ ...target, x: Number(e.target.value) })}
+          className="h-7 w-16 px-1 text-xs"
+        />
+        <span>Y</span>
+        <Input
+          type="number"
+          aria-label="Ziel Y (mm)"
+          value={target.y}
+          onChange={(e) => setTarget({ ...target, y: Number(e.target.value) })}
+          className="h-7 w-16 px-1 text-xs"
+        />
+        <span>mm</span>
+      </div>
+      <ul className="space-y-1">
+        {solutions.map((solution) => (
+          <li key={`${solution.stemLength}|${solution.stemAngle}|${solution.spacerHeight}`} className="flex items-center gap-2">
+            <span className="flex-1">
+              <b>{solution.stemLength} mm</b> / {solution.stemAngle}° · Spacer {solution.spacerHeight} mm
+              <span className="text-muted-foreground"> · Δ {solution.error.toFixed(1)} mm</span>
+            </span>
+            <Button
+              size="xs"
+              variant="outline"
+              onClick={() =>
+                onApply({ stemLength: solution.stemLength, stemAngle: solution.stemAngle, spacerHeight: solution.spacerHeight })
+              }
+            >
+              Übernehmen
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function roundPosition({ x, y }: { x: number; y: number }) {
+  return { x: Math.round(x), y: Math.round(y) }
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+import type { BikeData, CockpitSetup } from '@/types/bike'
+import { suggestFitAdjustments, type FitSuggestion, type FitSuggestions, type SetupChange } from '@/lib/fit-suggestions'
+import { RATING_COLORS, type MetricRating } from '@/lib/metric-ratings'
+import type { FitThresholds } from '@/lib/threshold-profiles'
+import { Button } from '@/components/ui/button'
+import { useStaticBike } from '@/hooks/use-static-bike'
+
+type FitSuggestionsPanelProps = {
+  bike: BikeData
+  thresholds?: FitThresholds
+  onApply: (cockpit: CockpitSetup) => void
+}
+
+const formatChange = ({ label, unit, before, after }: SetupChange) => {
+  const delta = after - before
+  return `${label} ${before} → ${after} ${unit} (${delta >= 0 ? '+' : ''}${delta})`
+}
+
+const formatValue = (value: number, unit: string) => `${value.toFixed(unit === 'mm' ? 0 : 1)}${unit === 'mm' ? ' mm' : '°'}`
+
+function RatingDot({ rating }: { rating: MetricRating }) {
+  return <span className="inline-block h-2 w-2 rounded-full mr-1" style={{ backgroundColor: RATING_COLORS[rating] }} />
+}
+
+/** Vorschläge, welche Einstellung gelbe/rote Kennzahlen in den grünen Bereich bringt. */
+export function FitSuggestionsPanel({ bike, thresholds, onApply }: FitSuggestionsPanelProps) {
+  // Ergebnis gilt nur für Bike und Schwellen, mit denen es berechnet wurde – die Kurbelstellung zählt nicht
+  const staticBike = useStaticBike(bike)
+  const [computed, setComputed] = useState<{ bike: BikeData; thresholds?: FitThresholds; result: FitSuggestions } | null>(null)
+  const result = computed?.bike === staticBike && computed.thresholds === thresholds ? computed.result : null
+
+  // Vorschläge tragen die Kurbelstellung der Berechnung – aktuelle beibehalten
+  const apply = (cockpit: CockpitSetup) => onApply({ ...cockpit, pedalAngle: bike.cockpit.pedalAngle })
+
+  return (
+    <div className="space-y-2 p-2 bg-muted/30 rounded-md border border-border/50 text-[11px]">
+      <div className="flex items-center gap-1.5">
+        <span className="font-medium flex-1">Anpassungsvorschläge</span>
+        <Button
+          size="xs"
+          variant="outline"
+          onClick={() => setComputed({ bike: staticBike, thresholds, result: suggestFitAdjustments(staticBike, thresholds) })}
+        >
+          {result ? 'Neu berechnen' : 'Berechnen'}
+        </Button>
+      </div>
+
+      {result && result.findings.length === 0 && (
+        <p className="text-muted-foreground">Alle Kennzahlen liegen im grünen Bereich.</p>
+      )}
+
+      {result && result.findings.length > 0 && (
+        <>
+          {result.combined ? (
+            <SuggestionBlock
+              title={result.combined.remaining.length === 0 ? 'Alles grün mit' : 'Beste Näherung'}
+              suggestion={result.combined}
+              onApply={apply}
+            />
+          ) : (
+            <p className="text-muted-foreground">Keine Verbesserung mit kleinen Änderungen gefunden.</p>
+          )}
+
+          <div className="space-y-1">
+            <div className="font-medium">Je Messung (eine Einstellung)</div>
+            {result.perFinding.map(({ finding, suggestion }) => (
+              <div key={finding.id} className="flex items-center gap-1.5">
+                <div className="flex-1">
+                  <RatingDot rating={finding.rating} />
+                  {finding.label} {formatValue(finding.value, finding.unit)}
+                  <div className="text-muted-foreground pl-3">
+                    {suggestion
+                      ? suggestion.changes.map(formatChange).join(', ')
+                      : `Allein nicht lösbar${finding.adjustment ? ` – ${finding.adjustment.hint}` : ''}`}
+                  </div>
+                </div>
+                {suggestion && (
+                  <Button size="xs" variant="ghost" onClick={() => apply(suggestion.cockpit)}>
+                    Übernehmen
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function SuggestionBlock({
+  title,
+  suggestion,
+  onApply,
+}: {
+  title: string
+  suggestion: FitSuggestion
+  onApply: (cockpit: CockpitSetup) => void
+}) {
+  // Nur Kennzahlen zeigen, deren Bewertung vorher oder nachher nicht grün ist
+  const metrics = suggestion.metrics.filter((metric) => metric.ratingBefore !== 'green' || metric.ratingAfter !== 'green')
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1.5">
+        <div className="flex-1">
+          <span className="font-medium">{title}:</span>{' '}
+          {suggestion.changes.map(formatChange).join(', ')}
+        </div>
+        <Button size="xs" variant="outline" onClick={() => onApply(suggestion.cockpit)}>
+          Übernehmen
+        </Button>
+      </div>
+      <table className="w-full">
+        <tbody>
+          {metrics.map((metric) => (
+            <tr key={metric.id}>
+              <td className="text-muted-foreground">{metric.label}</td>
+              <td className="text-right whitespace-nowrap">
+                <RatingDot rating={metric.ratingBefore} />
+                {formatValue(metric.before, metric.unit)}
+              </td>
+              <td className="px-1 text-muted-foreground">→</td>
+              <td className="text-right whitespace-nowrap">
+                <RatingDot rating={metric.ratingAfter} />
+                {formatValue(metric.after, metric.unit)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
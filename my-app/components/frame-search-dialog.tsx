@@ -0,0 +1,241 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  CartesianGrid,
+  ReferenceArea,
+  ReferenceDot,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { AvailableBikesMap, BikeData } from '@/types/bike'
+import {
+  FRAME_SEARCH_DEFAULT_WEIGHTS,
+  FRAME_SEARCH_EXTRA_FIELDS,
+  searchFrames,
+  type FrameSearchCriteria,
+  type FrameSearchExtraField,
+  type FrameSearchHit,
+} from '@/lib/frame-search'
+import { GEOMETRY_FIELDS } from '@/lib/geometry-fields'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+type FrameSearchDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  availableBikes: AvailableBikesMap
+  bikeA: BikeData // Startwerte der Suche
+  bikeB: BikeData | null
+  onLoad: (slot: 'A' | 'B', bike: BikeData) => void
+}
+
+const fieldInfo = (key: FrameSearchExtraField) => GEOMETRY_FIELDS.find((field) => field.key === key)
+const hitKey = (hit: FrameSearchHit) => `${hit.brand}|${hit.model}|${hit.size}`
+
+/** Initiale Kriterien: Stack/Reach von Bike A, Zusatzwerte ohne Gewicht. */
+function initialCriteria(bike: BikeData): Required<FrameSearchCriteria> {
+  return {
+    stack: bike.geometry.stack,
+    reach: bike.geometry.reach,
+    tolerance: 10,
+    extras: Object.fromEntries(
+      FRAME_SEARCH_EXTRA_FIELDS.map((field) => [field, { value: bike.geometry[field], weight: 0 }])
+    ),
+  }
+}
+
+/** Markenübergreifende Rahmensuche nach Stack/Reach mit Streudiagramm. */
+export function FrameSearchDialog({ open, onOpenChange, availableBikes, bikeA, bikeB, onLoad }: FrameSearchDialogProps) {
+  const [criteria, setCriteria] = useState(() => initialCriteria(bikeA))
+  const [selected, setSelected] = useState<string | null>(null)
+
+  const results = searchFrames(availableBikes, criteria)
+  const hits = results.filter((hit) => hit.inTolerance)
+  const others = results.filter((hit) => !hit.inTolerance)
+
+  const setNumber = (key: 'stack' | 'reach' | 'tolerance', value: string) =>
+    setCriteria({ ...criteria, [key]: Number(value) })
+
+  const setExtra = (field: FrameSearchExtraField, key: 'value' | 'weight', value: string) => {
+    const current = criteria.extras[field] ?? { value: bikeA.geometry[field], weight: 0 }
+    setCriteria({ ...criteria, extras: { ...criteria.extras, [field]: { ...current, [key]: Number(value) } } })
+  }
+
+  const handleLoad = (slot: 'A' | 'B', hit: FrameSearchHit) => {
+    // Cockpit und Fahrer des Ziel-Slots bleiben erhalten
+    const base = slot === 'A' ? bikeA : bikeB ?? bikeA
+    onLoad(slot, { ...base, brand: hit.brand, model: hit.model, size: hit.size, geometry: hit.geometry })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rahmensuche nach Stack & Reach</DialogTitle>
+          <DialogDescription>
+            Alle Marken, Modelle und Größen im ±Fenster um den Zielwert, sortiert nach Abstand (optional gewichtet mit
+            Lenkwinkel, Radstand und Überstand).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-[1fr_1fr_1fr_auto] items-end gap-3">
+            {(['stack', 'reach', 'tolerance'] as const).map((key) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`frame-search-${key}`} className="text-xs text-muted-foreground font-medium">
+                  {key === 'stack' ? 'Stack' : key === 'reach' ? 'Reach' : 'Toleranz ±'} (mm)
+                </Label>
+                <Input
+                  id={`frame-search-${key}`}
+                  type="number"
+                  value={criteria[key]}
+                  onChange={(e) => setNumber(key, e.target.value)}
+                  className="h-8 text-sm"
+                />
+              </div>
+            ))}
+            <Button size="sm" variant="ghost" onClick={() => setCriteria(initialCriteria(bikeA))} title="Werte von Bike A übernehmen">
+              Von Bike A
+            </Button>
+          </div>
+
+          {/* Zusatzwerte: Gewicht 0 = ignorieren */}
+          <div className="grid grid-cols-3 gap-3">
+            {FRAME_SEARCH_EXTRA_FIELDS.map((field) => {
+              const info = fieldInfo(field)
+              const extra = criteria.extras[field]
+              return (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs text-muted-foreground font-medium">
+                    {info?.label} ({info?.unit}) · Gewicht (Standard {FRAME_SEARCH_DEFAULT_WEIGHTS[field]})
+                  </Label>
+                  <div className="flex gap-1.5">
+                    <Input
+                      type="number"
+                      aria-label={`${info?.label} Zielwert`}
+                      value={extra?.value ?? ''}
+                      onChange={(e) => setExtra(field, 'value', e.target.value)}
+                      className="h-8 text-sm"
+                    />
+                    <Input
+                      type="number"
+                      step={0.05}
+                      min={0}
+                      aria-label={`${info?.label} Gewicht`}
+                      placeholder="aus"
+                      value={extra?.weight || ''}
+                      onChange={(e) => setExtra(field, 'weight', e.target.value)}
+                      className="h-8 w-20 text-sm"
+                    />
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Streudiagramm Stack über Reach */}
+          <div className="h-80 rounded-md border border-border/50 p-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 8, right: 16, bottom: 16, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.4} />
+                <XAxis
+                  type="number"
+                  dataKey="geometry.reach"
+                  name="Reach"
+                  unit=" mm"
+                  domain={['dataMin - 10', 'dataMax + 10']}
+                  tick={{ fontSize: 11 }}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="geometry.stack"
+                  name="Stack"
+                  unit=" mm"
+                  domain={['dataMin - 10', 'dataMax + 10']}
+                  tick={{ fontSize: 11 }}
+                  width={70}
+                />
+                <ReferenceArea
+                  x1={criteria.reach - criteria.tolerance}
+                  x2={criteria.reach + criteria.tolerance}
+                  y1={criteria.stack - criteria.tolerance}
+                  y2={criteria.stack + criteria.tolerance}
+                  fill="#22c55e"
+                  fillOpacity={0.1}
+                  stroke="#22c55e"
+                  strokeDasharray="3 3"
+                />
+                <Tooltip
+                  cursor={{ strokeDasharray: '3 3' }}
+                  content={({ payload }) => {
+                    const hit = payload?.[0]?.payload as FrameSearchHit | undefined
+                    if (!hit) return null
+                    return (
+                      <div className="rounded-md border border-border bg-background px-2 py-1 text-xs shadow-sm">
+                        <div className="font-medium">{hit.brand} {hit.model} {hit.size}</div>
+                        <div className="text-muted-foreground">
+                          Stack {hit.geometry.stack} · Reach {hit.geometry.reach} mm
+                        </div>
+                      </div>
+                    )
+                  }}
+                />
+                <Scatter data={others} fill="#94a3b8" onClick={(point) => setSelected(hitKey(point.payload))} />
+                <Scatter data={hits} fill="#22c55e" onClick={(point) => setSelected(hitKey(point.payload))} />
+                <ReferenceDot x={criteria.reach} y={criteria.stack} r={5} fill="none" stroke="#e74c3c" strokeWidth={2} />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Trefferliste */}
+          <div className="space-y-1">
+            <h4 className="text-xs font-bold uppercase tracking-wider">
+              {hits.length} Treffer im Fenster ±{criteria.tolerance} mm
+            </h4>
+            {hits.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Kein Rahmen im Fenster – Toleranz erhöhen.</p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {hits.map((hit) => (
+                  <li
+                    key={hitKey(hit)}
+                    className={`flex items-center gap-2 rounded border px-2 py-1 ${
+                      selected === hitKey(hit) ? 'border-[#22c55e] bg-[#22c55e]/10' : 'border-border/50'
+                    }`}
+                  >
+                    <span className="flex-1 font-medium">{hit.brand} {hit.model} ({hit.size})</span>
+                    <span className="text-muted-foreground">
+                      Stack {hit.geometry.stack} ({formatDelta(hit.dStack)}) · Reach {hit.geometry.reach} ({formatDelta(hit.dReach)})
+                      · Δ {hit.score.toFixed(1)}
+                    </span>
+                    <Button size="xs" variant="outline" onClick={() => handleLoad('A', hit)}>In A</Button>
+                    <Button size="xs" variant="outline" onClick={() => handleLoad('B', hit)}>In B</Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function formatDelta(value: number) {
+  const rounded = Math.round(value)
+  return `${rounded > 0 ? '+' : ''}${rounded}`
+}
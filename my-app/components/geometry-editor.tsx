@@ -0,0 +1,253 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronRight, Pencil, Plus, Trash2, Upload } from 'lucide-react'
+import type { AvailableBikesMap, BikeData, BikeGeometry } from '@/types/bike'
+import { bikeGeometrySchema } from '@/lib/bikes-schema'
+import { GEOMETRY_FIELDS } from '@/lib/geometry-fields'
+import {
+  addCustomBike,
+  listCustomBikes,
+  removeCustomBike,
+  type CustomBikeEntry,
+} from '@/lib/custom-bikes'
+import BikeVisualization from '@/components/bike-visualization'
+import { GeometryImportDialog } from '@/components/geometry-import-dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+/** Formularzustand: Werte als Strings, damit Felder beim Tippen leer sein dürfen. */
+type GeometryDraft = {
+  brand: string
+  model: string
+  size: string
+  values: Record<keyof BikeGeometry, string>
+}
+
+type BikeRef = Pick<CustomBikeEntry, 'brand' | 'model' | 'size'>
+
+function toDraftValues(geometry: BikeGeometry): GeometryDraft['values'] {
+  return Object.fromEntries(
+    GEOMETRY_FIELDS.map(({ key }) => [key, String(geometry[key])])
+  ) as GeometryDraft['values']
+}
+
+/** Validiert die Formularwerte mit `bikeGeometrySchema` (leere Felder = ungültig). */
+function parseDraftGeometry(values: GeometryDraft['values']) {
+  const numeric = Object.fromEntries(
+    GEOMETRY_FIELDS.map(({ key }) => [key, values[key].trim() === '' ? NaN : Number(values[key])])
+  )
+  return bikeGeometrySchema.safeParse(numeric)
+}
+
+type GeometryEditorProps = {
+  baseBike: BikeData // Vorlage für neue Geometrien, liefert Cockpit + Fahrer der Vorschau
+  availableBikes: AvailableBikesMap // mitgelieferte + eigene Rahmen, Basis für den Import-Diff
+  customBikes: AvailableBikesMap
+  onCustomBikesChange: (bikes: AvailableBikesMap) => void
+  onApply: (bike: BikeData) => void
+}
+
+export function GeometryEditor({
+  baseBike,
+  availableBikes,
+  customBikes,
+  onCustomBikesChange,
+  onApply,
+}: GeometryEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [draft, setDraft] = useState<GeometryDraft | null>(null)
+  const [original, setOriginal] = useState<BikeRef | null>(null)
+
+  const entries = listCustomBikes(customBikes)
+
+  const startNew = () => {
+    setOriginal(null)
+    setDraft({
+      brand: 'Eigene Bikes',
+      model: `${baseBike.model} (angepasst)`,
+      size: baseBike.size,
+      values: toDraftValues(baseBike.geometry),
+    })
+  }
+
+  const startEdit = (entry: CustomBikeEntry) => {
+    setOriginal({ brand: entry.brand, model: entry.model, size: entry.size })
+    setDraft({ brand: entry.brand, model: entry.model, size: entry.size, values: toDraftValues(entry.geometry) })
+  }
+
+  const parsed = draft ? parseDraftGeometry(draft.values) : null
+  const fieldErrors = parsed && !parsed.success ? parsed.error.flatten().fieldErrors : {}
+  const name = draft
+    ? { brand: draft.brand.trim(), model: draft.model.trim(), size: draft.size.trim() }
+    : null
+  const nameValid = Boolean(name?.brand && name.model && name.size)
+  const canSave = Boolean(parsed?.success && nameValid)
+
+  const previewBike: BikeData | null = parsed?.success
+    ? { ...baseBike, brand: name?.brand ?? '', model: name?.model ?? '', size: name?.size ?? '', geometry: parsed.data }
+    : null
+
+  const handleSave = () => {
+    if (!draft || !name || !parsed?.success || !nameValid) return
+    let next = customBikes
+    // Umbenennen: alten Eintrag entfernen
+    if (original && (original.brand !== name.brand || original.model !== name.model || original.size !== name.size)) {
+      next = removeCustomBike(next, original.brand, original.model, original.size)
+    }
+    next = addCustomBike(next, { ...name, geometry: parsed.data })
+    onCustomBikesChange(next)
+    onApply({ ...baseBike, ...name, geometry: parsed.data })
+    setDraft(null)
+  }
+
+  return (
+    <div className="px-6 pb-6 space-y-1">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between py-2 hover:opacity-80 transition-opacity"
+      >
+        <h3 className="text-xs font-bold text-foreground uppercase tracking-wider flex items-center gap-2">
+          Eigene Geometrien
+          <span className="bg-muted text-[10px] px-1.5 py-0.5 rounded-full font-normal text-muted-foreground">
+            {entries.length}
+          </span>
+        </h3>
+        <ChevronRight className={`h-4 w-4 text-muted-foreground transition-transform duration-200 ${open ? 'rotate-90' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="space-y-3 p-3 bg-muted/30 rounded-md border border-border/50 animate-in slide-in-from-top-2 duration-200">
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="xs" variant="outline" onClick={startNew}>
+              <Plus /> Neue Geometrie
+            </Button>
+            <Button size="xs" variant="outline" onClick={() => setImportOpen(true)}>
+              <Upload /> Importieren
+            </Button>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-[11px] text-muted-foreground">
+              Noch keine eigenen Rahmen. Sie erscheinen nach dem Speichern in der Marken-Auswahl.
+            </p>
+          ) : (
+            <ul className="space-y-1.5">
+              {entries.map((entry) => (
+                <li
+                  key={`${entry.brand}|${entry.model}|${entry.size}`}
+                  className="flex items-center gap-1 rounded border border-border/50 bg-card px-2 py-1.5 text-xs"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{entry.brand} {entry.model}</div>
+                    <div className="text-[10px] text-muted-foreground">
+                      Größe {entry.size} · Stack {entry.geometry.stack} / Reach {entry.geometry.reach}
+                    </div>
+                  </div>
+                  <Button size="icon-xs" variant="ghost" title="Bearbeiten" onClick={() => startEdit(entry)}>
+                    <Pencil />
+                  </Button>
+                  <Button
+                    size="icon-xs"
+                    variant="ghost"
+                    title="Löschen"
+                    onClick={() => onCustomBikesChange(removeCustomBike(customBikes, entry.brand, entry.model, entry.size))}
+                  >
+                    <Trash2 />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <GeometryImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        availableBikes={availableBikes}
+        customBikes={customBikes}
+        onCustomBikesChange={onCustomBikesChange}
+      />
+
+      <Dialog open={draft !== null} onOpenChange={(isOpen) => !isOpen && setDraft(null)}>
+        <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{original ? 'Geometrie bearbeiten' : 'Neue Geometrie'}</DialogTitle>
+            <DialogDescription>
+              Herstellerwerte eingeben (mm bzw. °). Die Vorschau nutzt Cockpit und Fahrer von {baseBike.brand} {baseBike.model}.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="grid gap-6 md:grid-cols-[280px_1fr]">
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  {(['brand', 'model', 'size'] as const).map((field) => (
+                    <div key={field} className="space-y-1">
+                      <Label htmlFor={`custom-${field}`} className="text-xs text-muted-foreground font-medium">
+                        {field === 'brand' ? 'Marke' : field === 'model' ? 'Modell' : 'Größe'}
+                      </Label>
+                      <Input
+                        id={`custom-${field}`}
+                        value={draft[field]}
+                        onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                        className="h-8 text-sm"
+                        aria-invalid={!draft[field].trim()}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  {GEOMETRY_FIELDS.map(({ key, label, unit }) => (
+                    <div key={key} className="space-y-1">
+                      <Label htmlFor={`custom-geo-${key}`} className="text-xs text-muted-foreground font-medium">
+                        {label} <span className="text-[10px] opacity-70">({unit})</span>
+                      </Label>
+                      <Input
+                        id={`custom-geo-${key}`}
+                        type="number"
+                        step={unit === '°' ? 0.1 : 1}
+                        value={draft.values[key]}
+                        onChange={(e) => setDraft({ ...draft, values: { ...draft.values, [key]: e.target.value } })}
+                        className="h-8 text-sm"
+                        aria-invalid={Boolean(fieldErrors[key])}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="h-[420px] md:h-auto min-h-[420px]">
+                {previewBike ? (
+                  <BikeVisualization bikeA={previewBike} bikeB={null} isPedaling={false} setIsPedaling={() => {}} />
+                ) : (
+                  <div className="h-full flex items-center justify-center rounded-md border border-dashed text-sm text-muted-foreground">
+                    Bitte alle Felder mit gültigen Zahlen füllen.
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Abbrechen</Button>
+            <Button onClick={handleSave} disabled={!canSave}>Speichern & laden</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
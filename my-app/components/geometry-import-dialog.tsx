@@ -0,0 +1,229 @@
+'use client'
+
+import { useState, type ChangeEvent } from 'react'
+import type { AvailableBikesMap, BikeGeometry } from '@/types/bike'
+import {
+  diffBikes,
+  importGeometryCsv,
+  importGeometryJson,
+  type HeaderMapping,
+  type ImportOrientation,
+  type ImportUnit,
+} from '@/lib/geometry-import'
+import { GEOMETRY_FIELDS } from '@/lib/geometry-fields'
+import { mergeAvailableBikes } from '@/lib/custom-bikes'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+// Radix-Select erlaubt keinen leeren Wert
+const IGNORE_FIELD = '__ignore'
+
+const STATUS_LABELS = {
+  added: { text: 'Neu', className: 'bg-[#22c55e] text-white' },
+  changed: { text: 'Geändert', className: 'bg-[#f39c12] text-white' },
+  unchanged: { text: 'Unverändert', className: 'bg-muted text-muted-foreground' },
+} as const
+
+const fieldLabel = (key: keyof BikeGeometry) =>
+  GEOMETRY_FIELDS.find((field) => field.key === key)?.label ?? key
+
+type GeometryImportDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  availableBikes: AvailableBikesMap // Basis für die Diff-Vorschau
+  customBikes: AvailableBikesMap
+  onCustomBikesChange: (bikes: AvailableBikesMap) => void
+}
+
+export function GeometryImportDialog({
+  open,
+  onOpenChange,
+  availableBikes,
+  customBikes,
+  onCustomBikesChange,
+}: GeometryImportDialogProps) {
+  const [text, setText] = useState('')
+  const [brand, setBrand] = useState('')
+  const [model, setModel] = useState('')
+  const [orientation, setOrientation] = useState<ImportOrientation | 'auto'>('auto')
+  const [unit, setUnit] = useState<ImportUnit>('mm')
+  const [headerMapping, setHeaderMapping] = useState<HeaderMapping>({})
+
+  const isJson = text.trim().startsWith('{')
+  const result = text.trim()
+    ? isJson
+      ? importGeometryJson(text, { brand, model })
+      : importGeometryCsv(text, { brand, model, orientation, unit, headerMapping })
+    : null
+  const diff = result ? diffBikes(availableBikes, result.bikes) : []
+  const hasChanges = diff.some((entry) => entry.status !== 'unchanged')
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setText(await file.text())
+    setHeaderMapping({})
+    if (!model) setModel(file.name.replace(/\.[^.]+$/, ''))
+  }
+
+  const handleMerge = () => {
+    if (!result) return
+    onCustomBikesChange(mergeAvailableBikes(customBikes, result.bikes))
+    onOpenChange(false)
+    setText('')
+    setHeaderMapping({})
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Geometrietabelle importieren</DialogTitle>
+          <DialogDescription>
+            CSV (Größen als Spalten oder Zeilen) oder JSON im Format von bikes.json. Ergebnis wird vor dem Übernehmen als Diff angezeigt.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="import-brand" className="text-xs text-muted-foreground font-medium">Marke</Label>
+              <Input id="import-brand" value={brand} onChange={(e) => setBrand(e.target.value)} className="h-8 text-sm" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="import-model" className="text-xs text-muted-foreground font-medium">Modell</Label>
+              <Input id="import-model" value={model} onChange={(e) => setModel(e.target.value)} className="h-8 text-sm" />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="import-text" className="text-xs text-muted-foreground font-medium">
+                Tabelle {text.trim() && <span className="opacity-70">({isJson ? 'JSON' : 'CSV'} erkannt)</span>}
+              </Label>
+              <Input type="file" accept=".csv,.json,.txt,.tsv" onChange={handleFile} className="h-8 w-56 text-xs" />
+            </div>
+            <textarea
+              id="import-text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={8}
+              placeholder={'Größe;S;M;L\nStack;540;560;580\nReach;380;388;396\n…'}
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+            />
+          </div>
+
+          {!isJson && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground font-medium">Ausrichtung</Label>
+                <Select value={orientation} onValueChange={(v) => setOrientation(v as ImportOrientation | 'auto')}>
+                  <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Automatisch</SelectItem>
+                    <SelectItem value="sizesAsColumns">Größen als Spalten</SelectItem>
+                    <SelectItem value="sizesAsRows">Größen als Zeilen</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground font-medium">Einheit der Längen</Label>
+                <Select value={unit} onValueChange={(v) => setUnit(v as ImportUnit)}>
+                  <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mm">mm</SelectItem>
+                    <SelectItem value="cm">cm</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {/* Zuordnung der Tabellenbeschriftungen */}
+          {result && result.labels.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-xs font-bold uppercase tracking-wider">Spalten-Zuordnung</h4>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                {result.labels.map(({ label, normalized, field }) => (
+                  <div key={`${normalized}-${label}`} className="flex items-center gap-2">
+                    <span className="flex-1 truncate text-xs" title={label}>{label || '–'}</span>
+                    <Select
+                      value={field ?? IGNORE_FIELD}
+                      onValueChange={(v) =>
+                        setHeaderMapping({
+                          ...headerMapping,
+                          [normalized]: v === IGNORE_FIELD ? null : (v as keyof BikeGeometry),
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-7 w-36 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE_FIELD}>ignorieren</SelectItem>
+                        {GEOMETRY_FIELDS.map(({ key, label: fieldName }) => (
+                          <SelectItem key={key} value={key}>{fieldName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result && result.errors.length > 0 && (
+            <ul className="space-y-0.5 rounded border border-[#e74c3c]/40 bg-[#e74c3c]/10 p-2 text-xs">
+              {result.errors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          {/* Diff-Vorschau */}
+          {diff.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-xs font-bold uppercase tracking-wider">Vorschau</h4>
+              <ul className="space-y-1 text-xs">
+                {diff.map((entry) => (
+                  <li key={`${entry.brand}|${entry.model}|${entry.size}`} className="rounded border border-border/50 px-2 py-1">
+                    <div className="flex items-center gap-2">
+                      <span className={`rounded-full px-1.5 py-0.5 text-[10px] font-medium ${STATUS_LABELS[entry.status].className}`}>
+                        {STATUS_LABELS[entry.status].text}
+                      </span>
+                      <span className="font-medium">{entry.brand} {entry.model} ({entry.size})</span>
+                    </div>
+                    {entry.status === 'changed' && (
+                      <div className="mt-0.5 text-[11px] text-muted-foreground">
+                        {entry.changes
+                          .map((change) => `${fieldLabel(change.field)}: ${change.before ?? '–'} → ${change.after}`)
+                          .join(' · ')}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Abbrechen</Button>
+          <Button onClick={handleMerge} disabled={!hasChanges}>In eigene Bikes übernehmen</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { BikeData } from '@/types/bike'
+import {
+  analyzeKops,
+  KOPS_FIELD_LABELS,
+  KOPS_REFERENCE_LABELS,
+  solveKopsAdjustment,
+  type KopsAdjustField,
+  type KopsReference,
+} from '@/lib/kops'
+import { DEFAULT_COCKPIT } from '@/lib/defaults'
+import { useStaticBike } from '@/hooks/use-static-bike'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type KopsSolverProps = {
+  bike: BikeData
+  onApply: (field: KopsAdjustField, value: number) => void
+}
+
+const formatOffset = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)} mm`
+
+/** Knie-Lot bei 3 Uhr (KOPS) und Setback/Sitzposition für einen Ziel-Abstand. */
+export function KopsSolver({ bike, onApply }: KopsSolverProps) {
+  const [offset, setOffset] = useState(0)
+  const [reference, setReference] = useState<KopsReference>('spindle')
+  const [field, setField] = useState<KopsAdjustField>('saddleSetback')
+
+  // KOPS rechnet mit fester Kurbelstellung – beim Pedalieren nicht neu lösen
+  const staticBike = useStaticBike(bike)
+  const current = useMemo(() => analyzeKops(staticBike), [staticBike])
+  const solution = useMemo(
+    () => solveKopsAdjustment(staticBike, { offset, reference, field }),
+    [staticBike, offset, reference, field]
+  )
+  const currentValue = bike.cockpit[field] ?? DEFAULT_COCKPIT[field] ?? 0
+  const extensionChange = solution.after.kneeExtension - solution.before.kneeExtension
+
+  return (
+    <div className="space-y-2 p-2 bg-muted/30 rounded-md border border-border/50 text-[11px]">
+      <div className="flex items-center gap-1.5">
+        <span className="font-medium flex-1">Knie-Lot (KOPS, 3 Uhr)</span>
+        <span className="text-muted-foreground">
+          Achse <b className="text-foreground">{formatOffset(current.offsets.spindle)}</b> · Ballen{' '}
+          <b className="text-foreground">{formatOffset(current.offsets.ballOfFoot)}</b>
+        </span>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <span>Ziel</span>
+        <Input
+          type="number"
+          aria-label="Ziel-Abstand Knie (mm)"
+          value={offset}
+          onChange={(e) => setOffset(Number(e.target.value))}
+          className="h-7 w-14 px-1 text-xs"
+        />
+        <span>mm vor</span>
+        <Select value={reference} onValueChange={(v) => setReference(v as KopsReference)}>
+          <SelectTrigger className="w-24 px-2 text-xs data-[size=sm]:h-7" size="sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(KOPS_REFERENCE_LABELS) as KopsReference[]).map((key) => (
+              <SelectItem key={key} value={key}>{KOPS_REFERENCE_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span>über</span>
+        <Select value={field} onValueChange={(v) => setField(v as KopsAdjustField)}>
+          <SelectTrigger className="w-24 px-2 text-xs data-[size=sm]:h-7" size="sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(KOPS_FIELD_LABELS) as KopsAdjustField[]).map((key) => (
+              <SelectItem key={key} value={key}>{KOPS_FIELD_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="flex-1 text-muted-foreground">
+          {KOPS_FIELD_LABELS[field]} <b className="text-foreground">{solution.value}</b> (aktuell {currentValue})
+          {' '}→ Lot {formatOffset(solution.after.offsets[reference])}, Kniestreckung{' '}
+          {solution.before.kneeExtension.toFixed(1)}° → {solution.after.kneeExtension.toFixed(1)}°
+          {Math.abs(extensionChange) >= 0.1 && ` (${extensionChange > 0 ? '+' : ''}${extensionChange.toFixed(1)}°)`}
+          {!solution.reachable && <span className="text-[#f39c12]"> · Ziel außerhalb des Verstellbereichs</span>}
+        </div>
+        <Button
+          size="xs"
+          variant="outline"
+          disabled={solution.value === currentValue}
+          onClick={() => onApply(field, solution.value)}
+        >
+          Übernehmen
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { BikeData } from '@/types/bike'
+import {
+  DEFAULT_PEDAL_SWEEP_RESOLUTION,
+  PEDAL_SWEEP_JOINTS,
+  PEDAL_SWEEP_LABELS,
+  PEDAL_SWEEP_RESOLUTIONS,
+  sweepPedalStroke,
+  type PedalSweepJoint,
+  type PedalSweepResult,
+} from '@/lib/pedal-sweep'
+import { BIKE_COLORS } from '@/lib/side-view-svg'
+import { useStaticBike } from '@/hooks/use-static-bike'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+type PedalSweepDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bikeA: BikeData | null
+  bikeB: BikeData | null
+}
+
+const JOINT_COLORS: Record<PedalSweepJoint, string> = {
+  knee: '#8e44ad',
+  hip: '#16a085',
+  ankle: '#f39c12',
+}
+
+/** Knie-, Hüft- und Sprunggelenkwinkel über eine volle Kurbelumdrehung für A und B. */
+export function PedalSweepDialog({ open, onOpenChange, bikeA, bikeB }: PedalSweepDialogProps) {
+  const [resolution, setResolution] = useState<number>(DEFAULT_PEDAL_SWEEP_RESOLUTION)
+
+  // Der Sweep läuft selbst über alle Kurbelstellungen – beim Pedalieren nicht neu rechnen
+  const staticA = useStaticBike(bikeA)
+  const staticB = useStaticBike(bikeB)
+  const sweeps = useMemo(
+    () =>
+      open
+        ? [
+            ...(staticA ? [{ name: 'A' as const, bike: staticA, sweep: sweepPedalStroke(staticA, resolution) }] : []),
+            ...(staticB ? [{ name: 'B' as const, bike: staticB, sweep: sweepPedalStroke(staticB, resolution) }] : []),
+          ]
+        : [],
+    [open, staticA, staticB, resolution]
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pedalzyklus-Analyse</DialogTitle>
+          <DialogDescription>
+            Gelenkwinkel über 360° Kurbelumdrehung (0° = vorne, 90° = unten, 270° = oben).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-muted-foreground">Auflösung</span>
+          <select
+            value={resolution}
+            onChange={(e) => setResolution(Number(e.target.value))}
+            className="px-1 py-1 rounded text-xs bg-muted border-0"
+          >
+            {PEDAL_SWEEP_RESOLUTIONS.map((step) => (
+              <option key={step} value={step}>{step}°</option>
+            ))}
+          </select>
+        </div>
+
+        <div className={`grid gap-4 ${sweeps.length > 1 ? 'md:grid-cols-2' : ''}`}>
+          {sweeps.map(({ name, bike, sweep }) => (
+            <div key={name} className="space-y-2 rounded-md border border-border/50 p-3">
+              <div className="flex items-center gap-1.5 text-xs font-medium">
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: BIKE_COLORS[name] }} />
+                Bike {name}: {bike.brand} {bike.model} ({bike.size})
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={closeLoop(sweep)} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+                    <CartesianGrid strokeDasharray="3 3" opacity={0.4} />
+                    <XAxis
+                      type="number"
+                      dataKey="pedalAngle"
+                      domain={[0, 360]}
+                      ticks={[0, 90, 180, 270, 360]}
+                      unit="°"
+                      tick={{ fontSize: 11 }}
+                    />
+                    <YAxis unit="°" tick={{ fontSize: 11 }} domain={['dataMin - 5', 'dataMax + 5']} />
+                    <Tooltip
+                      formatter={(value: number) => `${value.toFixed(1)}°`}
+                      labelFormatter={(label) => `Kurbel ${label}°`}
+                      contentStyle={{ fontSize: 11 }}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    {PEDAL_SWEEP_JOINTS.map((joint) => (
+                      <Line
+                        key={joint}
+                        type="monotone"
+                        dataKey={joint}
+                        name={PEDAL_SWEEP_LABELS[joint]}
+                        stroke={JOINT_COLORS[joint]}
+                        dot={false}
+                        strokeWidth={2}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <ExtremesTable sweep={sweep} />
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/** Wiederholt 0° als 360°, damit die Kurve über die volle Umdrehung geschlossen ist. */
+function closeLoop(sweep: PedalSweepResult) {
+  return [...sweep.samples, { ...sweep.samples[0], pedalAngle: 360 }]
+}
+
+function ExtremesTable({ sweep }: { sweep: PedalSweepResult }) {
+  return (
+    <table className="w-full text-xs">
+      <thead className="text-muted-foreground">
+        <tr>
+          <th className="text-left font-medium">Gelenk</th>
+          <th className="text-right font-medium">Min</th>
+          <th className="text-right font-medium">Max</th>
+          <th className="text-right font-medium">Spanne</th>
+        </tr>
+      </thead>
+      <tbody>
+        {PEDAL_SWEEP_JOINTS.map((joint) => {
+          const extremes = sweep.extremes[joint]
+          return (
+            <tr key={joint}>
+              <td style={{ color: JOINT_COLORS[joint] }}>{PEDAL_SWEEP_LABELS[joint]}</td>
+              <td className="text-right">
+                {extremes.min.toFixed(1)}° <span className="text-muted-foreground">@ {extremes.minAt}°</span>
+              </td>
+              <td className="text-right">
+                {extremes.max.toFixed(1)}° <span className="text-muted-foreground">@ {extremes.maxAt}°</span>
+              </td>
+              <td className="text-right">{extremes.range.toFixed(1)}°</td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
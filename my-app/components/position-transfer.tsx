@@ -0,0 +1,108 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ArrowRight, ChevronRight } from 'lucide-react'
+import type { BikeData } from '@/types/bike'
+import { transferPosition, TRANSFER_TOLERANCE } from '@/lib/position-transfer'
+import { COCKPIT_FIELD_INFO } from '@/lib/setup-fields'
+import { useStaticBike } from '@/hooks/use-static-bike'
+import { Button } from '@/components/ui/button'
+
+type PositionTransferProps = {
+  bikeA: BikeData
+  bikeB: BikeData | null
+  onApply: (bike: BikeData) => void
+}
+
+const fieldInfo = (key: string) => COCKPIT_FIELD_INFO.find((field) => field.key === key)
+
+/** Überträgt Sattel-, Hüft- und Griffposition von Bike A auf den Rahmen von Bike B. */
+export function PositionTransfer({ bikeA, bikeB, onApply }: PositionTransferProps) {
+  const [open, setOpen] = useState(false)
+
+  // Übertragung hängt nicht von der Kurbelstellung ab – beim Pedalieren nicht neu lösen
+  const staticA = useStaticBike(bikeA)
+  const staticB = useStaticBike(bikeB)
+  const transfer = useMemo(
+    () => (open && staticB ? transferPosition(staticA, staticB) : null),
+    [open, staticA, staticB]
+  )
+
+  return (
+    <div className="px-6 pb-6 space-y-1">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between py-2 hover:opacity-80 transition-opacity"
+      >
+        <h3 className="text-xs font-bold text-foreground uppercase tracking-wider flex items-center gap-2">
+          Position übertragen A <ArrowRight className="h-3 w-3" /> B
+        </h3>
+        <ChevronRight className={`h-4 w-4 text-muted-foreground transition-transform duration-200 ${open ? 'rotate-90' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="space-y-3 p-3 bg-muted/30 rounded-md border border-border/50 animate-in slide-in-from-top-2 duration-200 text-xs">
+          {!bikeB || !transfer ? (
+            <p className="text-[11px] text-muted-foreground">
+              Bike B auswählen – Sattel, Hüftgelenk und Griffposition von Bike A werden dann auf dessen Rahmen übertragen.
+            </p>
+          ) : (
+            <>
+              {/* Neue Einstellungen für B */}
+              <div className="space-y-0.5">
+                {Object.entries(transfer.cockpit).map(([key, value]) => {
+                  const info = fieldInfo(key)
+                  const current = bikeB.cockpit[key as keyof typeof bikeB.cockpit]
+                  return (
+                    <div key={key} className="flex justify-between">
+                      <span className="text-muted-foreground">{info?.label ?? key}</span>
+                      <span>
+                        {current ?? '–'} → <b>{value}</b> {info?.unit}
+                      </span>
+                    </div>
+                  )
+                })}
+              </div>
+
+              {/* Restfehler je Kontaktpunkt */}
+              <div className="space-y-0.5 border-t border-border/50 pt-2">
+                {transfer.residuals.map((residual) => (
+                  <div key={residual.id} className="flex justify-between">
+                    <span className="text-muted-foreground">{residual.label}</span>
+                    <span className={residual.distance > TRANSFER_TOLERANCE ? 'text-[#f39c12] font-medium' : ''}>
+                      Δ {residual.distance.toFixed(1)} mm
+                      <span className="text-[10px] text-muted-foreground">
+                        {' '}(x {residual.dx.toFixed(1)} / y {residual.dy.toFixed(1)})
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {transfer.limits.length > 0 && (
+                <ul className="space-y-0.5 rounded border border-[#f39c12]/40 bg-[#f39c12]/10 p-2 text-[11px]">
+                  {transfer.limits.map((limit) => {
+                    const info = fieldInfo(limit.field)
+                    return (
+                      <li key={limit.field}>
+                        ⚠ {info?.label ?? limit.field}:{' '}
+                        {limit.ideal !== undefined
+                          ? `benötigt ${limit.ideal.toFixed(0)} ${info?.unit}, begrenzt auf ${limit.applied} ${info?.unit}`
+                          : `am Verstellbereich (${limit.applied} ${info?.unit})`}
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+
+              <Button size="xs" className="w-full" onClick={() => onApply({ ...transfer.bike, cockpit: { ...transfer.bike.cockpit, pedalAngle: bikeB.cockpit.pedalAngle } })}>
+                {transfer.exact ? 'Auf Bike B übernehmen' : 'Trotzdem auf Bike B übernehmen'}
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ChevronRight, Copy, Pencil, Trash2 } from 'lucide-react'
+import type { AvailableBikesMap, BikeData } from '@/types/bike'
+import {
+  createFitProfile,
+  deleteFitProfile,
+  duplicateFitProfile,
+  loadFitProfiles,
+  renameFitProfile,
+  saveFitProfiles,
+  type FitProfile,
+} from '@/lib/fit-profiles'
+import { resolveSharedBike } from '@/lib/share-state'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+type ProfileManagerProps = {
+  bikeA: BikeData
+  bikeB: BikeData | null
+  availableBikes: AvailableBikesMap
+  onLoad: (slot: 'A' | 'B', bike: BikeData) => void
+}
+
+export function ProfileManager({ bikeA, bikeB, availableBikes, onLoad }: ProfileManagerProps) {
+  const [open, setOpen] = useState(false)
+  const [profiles, setProfiles] = useState<FitProfile[]>([])
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  // localStorage erst im Browser lesen (kein SSR-Zugriff)
+  useEffect(() => {
+    setProfiles(loadFitProfiles())
+  }, [])
+
+  const updateProfiles = (next: FitProfile[]) => {
+    setProfiles(next)
+    saveFitProfiles(next)
+  }
+
+  const handleSave = (bike: BikeData) => {
+    updateProfiles([...profiles, createFitProfile(newName, bike)])
+    setNewName('')
+  }
+
+  const handleLoad = (profile: FitProfile, slot: 'A' | 'B') => {
+    const fallback = slot === 'A' ? bikeA : bikeB ?? bikeA
+    const resolved = resolveSharedBike(profile, availableBikes, fallback)
+    if (resolved) onLoad(slot, resolved.bike)
+  }
+
+  const commitRename = () => {
+    if (editingId) updateProfiles(renameFitProfile(profiles, editingId, editingName))
+    setEditingId(null)
+  }
+
+  return (
+    <div className="px-6 pb-6 space-y-1">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between py-2 hover:opacity-80 transition-opacity"
+      >
+        <h3 className="text-xs font-bold text-foreground uppercase tracking-wider flex items-center gap-2">
+          Fit-Profile
+          <span className="bg-muted text-[10px] px-1.5 py-0.5 rounded-full font-normal text-muted-foreground">
+            {profiles.length}
+          </span>
+        </h3>
+        <ChevronRight className={`h-4 w-4 text-muted-foreground transition-transform duration-200 ${open ? 'rotate-90' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="space-y-3 p-3 bg-muted/30 rounded-md border border-border/50 animate-in slide-in-from-top-2 duration-200">
+          {/* Neues Profil speichern */}
+          <div className="space-y-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Profilname (optional)"
+              className="h-8 text-sm"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Button size="xs" variant="outline" onClick={() => handleSave(bikeA)}>
+                Bike A speichern
+              </Button>
+              <Button size="xs" variant="outline" onClick={() => bikeB && handleSave(bikeB)} disabled={!bikeB}>
+                Bike B speichern
+              </Button>
+            </div>
+          </div>
+
+          {profiles.length === 0 ? (
+            <p className="text-[11px] text-muted-foreground">Noch keine Profile gespeichert.</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {profiles.map((profile) => (
+                <li key={profile.id} className="rounded border border-border/50 bg-card px-2 py-1.5 text-xs">
+                  <div className="flex items-center gap-1">
+                    <div className="flex-1 min-w-0">
+                      {editingId === profile.id ? (
+                        <Input
+                          autoFocus
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onBlur={commitRename}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename()
+                            if (e.key === 'Escape') setEditingId(null)
+                          }}
+                          className="h-6 text-xs"
+                        />
+                      ) : (
+                        <div className="font-medium truncate">{profile.name}</div>
+                      )}
+                      <div className="text-[10px] text-muted-foreground truncate">
+                        {profile.brand} {profile.model} ({profile.size})
+                      </div>
+                    </div>
+                    <Button size="icon-xs" variant="ghost" title="Umbenennen" onClick={() => { setEditingId(profile.id); setEditingName(profile.name) }}>
+                      <Pencil />
+                    </Button>
+                    <Button size="icon-xs" variant="ghost" title="Duplizieren" onClick={() => updateProfiles(duplicateFitProfile(profiles, profile.id))}>
+                      <Copy />
+                    </Button>
+                    <Button size="icon-xs" variant="ghost" title="Löschen" onClick={() => updateProfiles(deleteFitProfile(profiles, profile.id))}>
+                      <Trash2 />
+                    </Button>
+                  </div>
+                  <div className="mt-1.5 grid grid-cols-2 gap-1.5">
+                    <Button size="xs" variant="secondary" onClick={() => handleLoad(profile, 'A')}>
+                      In A laden
+                    </Button>
+                    <Button size="xs" variant="secondary" onClick={() => handleLoad(profile, 'B')}>
+                      In B laden
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
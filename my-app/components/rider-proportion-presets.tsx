@@ -0,0 +1,154 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { BikeData, RiderProportionPreset, RiderSetup } from '@/types/bike'
+import {
+  applyRiderProportionPreset,
+  DEFAULT_RIDER_PROPORTION_PRESET,
+  RIDER_PROPORTION_PRESET_IDS,
+  RIDER_PROPORTION_PRESETS,
+} from '@/lib/rider-proportions'
+import { compareRiderProportionPresets, type ProportionComparison } from '@/lib/proportion-comparison'
+import { RATING_COLORS, type FitMetric } from '@/lib/metric-ratings'
+import type { FitThresholds } from '@/lib/threshold-profiles'
+import { useStaticBike } from '@/hooks/use-static-bike'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type RiderProportionPresetsProps = {
+  bike: BikeData
+  thresholds?: FitThresholds
+  onApply: (rider: RiderSetup) => void
+}
+
+/** Proportionen-Preset des Fahrers plus Vergleich aller Presets am aktuellen Bike. */
+export function RiderProportionPresets({ bike, thresholds, onApply }: RiderProportionPresetsProps) {
+  const [compareOpen, setCompareOpen] = useState(false)
+  const preset = bike.rider.proportionPreset ?? DEFAULT_RIDER_PROPORTION_PRESET
+
+  const staticBike = useStaticBike(bike)
+  const comparison = useMemo(
+    () => (compareOpen ? compareRiderProportionPresets(staticBike, thresholds) : null),
+    [compareOpen, staticBike, thresholds]
+  )
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs">
+      <span className="text-muted-foreground">Proportionen</span>
+      <Select
+        value={preset}
+        onValueChange={(value) =>
+          onApply(applyRiderProportionPreset(bike.rider, value as RiderProportionPreset))
+        }
+      >
+        <SelectTrigger className="flex-1 px-2 text-xs data-[size=sm]:h-7" size="sm"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {RIDER_PROPORTION_PRESET_IDS.map((id) => (
+            <SelectItem key={id} value={id}>{RIDER_PROPORTION_PRESETS[id].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="xs" variant="outline" onClick={() => setCompareOpen(true)}>
+        Vergleichen
+      </Button>
+
+      <Dialog open={compareOpen} onOpenChange={setCompareOpen}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Proportionen im Vergleich</DialogTitle>
+            <DialogDescription>
+              {bike.brand} {bike.model} {bike.size} mit unverändertem Cockpit, Körpergröße {bike.rider.riderHeight} mm.
+              Gemessene Werte bleiben, das Preset ändert nur die daraus abgeleiteten Segmente.
+            </DialogDescription>
+          </DialogHeader>
+          {comparison && (
+            <ComparisonTable
+              comparison={comparison}
+              activePreset={preset}
+              onApply={(rider) => {
+                onApply(rider)
+                setCompareOpen(false)
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+function MetricCell({ metric }: { metric: FitMetric | undefined }) {
+  if (!metric) return <td className="text-right">–</td>
+  return (
+    <td className="text-right whitespace-nowrap">
+      <span className="inline-block h-2 w-2 rounded-full mr-1" style={{ backgroundColor: RATING_COLORS[metric.rating] }} />
+      {metric.value.toFixed(1)}{metric.unit}
+    </td>
+  )
+}
+
+function ComparisonTable({
+  comparison,
+  activePreset,
+  onApply,
+}: {
+  comparison: ProportionComparison
+  activePreset: RiderProportionPreset
+  onApply: (rider: RiderSetup) => void
+}) {
+  const metricIds = comparison.current.map((metric) => metric.id)
+  const find = (metrics: FitMetric[], id: FitMetric['id']) => metrics.find((metric) => metric.id === id)
+
+  return (
+    <table className="w-full text-xs">
+      <thead className="text-muted-foreground">
+        <tr>
+          <th className="text-left font-medium">Preset</th>
+          <th className="text-right font-medium">Oberschenkel</th>
+          {comparison.current.map((metric) => (
+            <th key={metric.id} className="text-right font-medium">{metric.label}</th>
+          ))}
+          <th />
+        </tr>
+      </thead>
+      <tbody>
+        <tr className="border-b border-border/50">
+          <td className="py-1 font-medium">Aktuell</td>
+          <td className="text-right">{comparison.currentThighLength.toFixed(0)} mm</td>
+          {metricIds.map((id) => (
+            <MetricCell key={id} metric={find(comparison.current, id)} />
+          ))}
+          <td />
+        </tr>
+        {comparison.rows.map((row) => (
+          <tr key={row.preset}>
+            <td className="py-1" title={RIDER_PROPORTION_PRESETS[row.preset].description}>
+              {RIDER_PROPORTION_PRESETS[row.preset].label}
+              {row.preset === activePreset && <span className="text-muted-foreground"> (aktiv)</span>}
+            </td>
+            <td className="text-right">{row.thighLength.toFixed(0)} mm</td>
+            {metricIds.map((id) => (
+              <MetricCell key={id} metric={find(row.metrics, id)} />
+            ))}
+            <td className="text-right">
+              <Button size="xs" variant="ghost" onClick={() => onApply(row.rider)}>Übernehmen</Button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronRight } from 'lucide-react'
+import type { RiderSetup } from '@/types/bike'
+import { resolveRiderSegments, type RiderSegments } from '@/lib/bike-geometry'
+import { RIDER_SEGMENT_FIELD_INFO, type RiderSegmentField } from '@/lib/setup-fields'
+import { Input } from '@/components/ui/input'
+
+type RiderSegmentsEditorProps = {
+  rider: RiderSetup
+  onChange: (field: RiderSegmentField, value: number | undefined) => void
+}
+
+/** Modell-Segment, das als Platzhalter (Proportionswert) angezeigt wird. */
+const PLACEHOLDER_SEGMENT: Partial<Record<RiderSegmentField, keyof RiderSegments>> = {
+  thighLength: 'thigh',
+  shankLength: 'shank',
+  torsoLength: 'torso',
+  upperArmLength: 'upperArm',
+  forearmLength: 'forearm',
+}
+
+/** Optional gemessene Segmentlängen; leere Felder nutzen die Körperproportionen. */
+export function RiderSegmentsEditor({ rider, onChange }: RiderSegmentsEditorProps) {
+  const [open, setOpen] = useState(false)
+  const measuredCount = RIDER_SEGMENT_FIELD_INFO.filter(({ key }) => rider[key] !== undefined).length
+
+  const placeholderFor = (field: RiderSegmentField) => {
+    const segment = PLACEHOLDER_SEGMENT[field]
+    if (!segment) return 'auto'
+    return `≈ ${Math.round(resolveRiderSegments({ ...rider, [field]: undefined })[segment])}`
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <span>
+          Gemessene Segmente
+          <span className="ml-1.5 text-[10px]">
+            {measuredCount > 0 ? `${measuredCount} gemessen` : 'aus Proportionen'}
+          </span>
+        </span>
+        <ChevronRight className={`h-3.5 w-3.5 transition-transform duration-200 ${open ? 'rotate-90' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+          {RIDER_SEGMENT_FIELD_INFO.map(({ key, label, unit }) => (
+            <label key={key} className="space-y-1 text-[11px] text-muted-foreground">
+              <span>{label} ({unit})</span>
+              <Input
+                type="number"
+                min={0}
+                value={rider[key] ?? ''}
+                placeholder={placeholderFor(key)}
+                onChange={(e) => {
+                  const value = Number(e.target.value)
+                  onChange(key, e.target.value === '' || !(value > 0) ? undefined : value)
+                }}
+                className="h-7 px-2 text-xs"
+              />
+            </label>
+          ))}
+          <p className="col-span-2 text-[10px] text-muted-foreground">
+            Leere Felder werden aus Körpergröße und Schrittlänge abgeleitet. Die Schulterhöhe ersetzt die
+            Proportionen für Oberkörper, Hals und Kopf.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
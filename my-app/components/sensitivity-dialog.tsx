@@ -0,0 +1,214 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { BikeData } from '@/types/bike'
+import { RATING_COLORS } from '@/lib/metric-ratings'
+import {
+  analyzeSensitivity,
+  parameterId,
+  SENSITIVITY_DELTA,
+  type SensitivityParameter,
+} from '@/lib/sensitivity'
+import type { FitThresholds } from '@/lib/threshold-profiles'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useStaticBike } from '@/hooks/use-static-bike'
+
+type SensitivityDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bikeA: BikeData
+  bikeB: BikeData | null
+  thresholds?: FitThresholds
+}
+
+const POSITIVE_COLOR = '59, 130, 246' // blau: Kennzahl steigt
+const NEGATIVE_COLOR = '231, 76, 60' // rot: Kennzahl sinkt
+
+const formatUnit = (unit: 'mm' | '°') => (unit === 'mm' ? ' mm' : '°')
+const formatSigned = (value: number, digits = 1) => `${value > 0 ? '+' : value < 0 ? '−' : '±'}${Math.abs(value).toFixed(digits)}`
+
+/** Hintergrund je Zelle: Farbe nach Vorzeichen, Deckkraft relativ zum stärksten Effekt der Spalte. */
+function heatColor(effect: number | null, columnMax: number): string | undefined {
+  if (effect === null || effect === 0 || columnMax === 0) return undefined
+  const alpha = 0.08 + 0.62 * Math.min(1, Math.abs(effect) / columnMax)
+  return `rgba(${effect > 0 ? POSITIVE_COLOR : NEGATIVE_COLOR}, ${alpha.toFixed(2)})`
+}
+
+/** Heat-Map: Wie stark ändert jeder Cockpit-/Fahrer-Wert jede Kennzahl? */
+export function SensitivityDialog({ open, onOpenChange, bikeA, bikeB, thresholds }: SensitivityDialogProps) {
+  const [sourceSlot, setSourceSlot] = useState<'A' | 'B'>('A')
+  const [showAll, setShowAll] = useState(false)
+
+  // Pedal-Animation ignorieren: „aktuell“-Zeilen gelten für die Kurbelstellung beim Berechnen
+  const source = useStaticBike(sourceSlot === 'B' && bikeB ? bikeB : bikeA)
+  // Nur bei geöffnetem Dialog rechnen
+  const analysis = useMemo(
+    () => (open ? analyzeSensitivity(source, thresholds) : null),
+    [open, source, thresholds]
+  )
+  if (!analysis) return null
+
+  // Spalten: bewertete Kennzahlen, optional alle
+  const columns = analysis.metrics
+    .map((metric, index) => ({ metric, index }))
+    .filter(({ metric }) => metric.value !== null && (showAll || metric.finding !== null))
+  const columnMax = columns.map(({ index }) =>
+    Math.max(0, ...analysis.effects.map((row) => Math.abs(row[index] ?? 0)))
+  )
+
+  // Dominante Parameter je gelbem/rotem Finding: Zelle hervorheben
+  const highlighted = new Map<string, string>()
+  for (const { finding, drivers } of analysis.dominant) {
+    for (const driver of drivers) highlighted.set(`${parameterId(driver.parameter)}|${finding.id}`, RATING_COLORS[finding.rating])
+  }
+
+  const groups: Array<{ label: string; parameters: Array<{ parameter: SensitivityParameter; row: number }> }> = [
+    { label: 'Cockpit', parameters: [] },
+    { label: 'Fahrer', parameters: [] },
+  ]
+  analysis.parameters.forEach((parameter, row) => {
+    groups[parameter.group === 'cockpit' ? 0 : 1].parameters.push({ parameter, row })
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sensitivität der Kennzahlen</DialogTitle>
+          <DialogDescription>
+            Änderung jeder Kennzahl, wenn ein Wert um {SENSITIVITY_DELTA.mm} mm bzw. {SENSITIVITY_DELTA['°']}° um die
+            aktuelle Einstellung verändert wird. Blau = Kennzahl steigt, Rot = sinkt; umrandet = stärkste Hebel für
+            gelbe/rote Kennzahlen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex items-end gap-3">
+            {bikeB && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground font-medium">Bike</Label>
+                <Select value={sourceSlot} onValueChange={(value) => setSourceSlot(value as 'A' | 'B')}>
+                  <SelectTrigger className="h-8 w-56 text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="A">A: {bikeA.brand} {bikeA.model} ({bikeA.size})</SelectItem>
+                    <SelectItem value="B">B: {bikeB.brand} {bikeB.model} ({bikeB.size})</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <label className="flex items-center gap-1.5 text-xs">
+              <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+              <span>Auch unbewertete Kennzahlen</span>
+            </label>
+          </div>
+
+          {/* Stärkste Hebel je auffälliger Kennzahl */}
+          <div className="space-y-1">
+            <h4 className="text-xs font-bold uppercase tracking-wider">Stärkste Hebel</h4>
+            {analysis.dominant.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Alle Kennzahlen liegen im grünen Bereich.</p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {analysis.dominant.map(({ finding, drivers }) => (
+                  <li key={finding.id} className="flex gap-2">
+                    <span className="inline-block h-2 w-2 mt-1 shrink-0 rounded-full" style={{ backgroundColor: RATING_COLORS[finding.rating] }} />
+                    <span className="w-56 shrink-0 font-medium">
+                      {finding.label} {finding.value.toFixed(1)}{formatUnit(finding.unit)}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {drivers.length === 0
+                        ? 'Kein Wert hat hier Einfluss.'
+                        : drivers
+                            .map(({ parameter, effect, direction }) =>
+                              `${parameter.label} ${formatSigned(direction * parameter.delta, 0)}${formatUnit(parameter.unit)} → ${formatSigned(direction * effect)}${formatUnit(finding.unit)}`
+                            )
+                            .join(' · ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Heat-Map: Zeilen = Parameter, Spalten = Kennzahlen */}
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-[11px]">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium px-1 py-1">je Schritt</th>
+                  {columns.map(({ metric }) => (
+                    <th
+                      key={metric.key}
+                      className="px-1 py-1 font-medium text-center align-bottom"
+                      title={metric.finding ? `${metric.finding.label}: ${metric.finding.range}` : metric.label}
+                    >
+                      <div className="flex flex-col items-center gap-0.5">
+                        {metric.finding && (
+                          <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: RATING_COLORS[metric.finding.rating] }} />
+                        )}
+                        <span>{metric.label}</span>
+                        <span className="text-muted-foreground font-normal">
+                          {metric.value?.toFixed(metric.unit === 'mm' ? 0 : 1)}{formatUnit(metric.unit)}
+                        </span>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              {groups.map((group) => (
+                <tbody key={group.label}>
+                  <tr>
+                    <td colSpan={columns.length + 1} className="pt-2 pb-0.5 px-1 text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+                      {group.label}
+                    </td>
+                  </tr>
+                  {group.parameters.map(({ parameter, row }) => (
+                    <tr key={parameterId(parameter)} className="border-t border-border/40">
+                      <td className="px-1 py-0.5 whitespace-nowrap">
+                        {parameter.label}{' '}
+                        <span className="text-muted-foreground">
+                          {formatSigned(parameter.delta, 0)}{formatUnit(parameter.unit)}
+                        </span>
+                      </td>
+                      {columns.map(({ metric, index }, column) => {
+                        const effect = analysis.effects[row][index]
+                        const outline = highlighted.get(`${parameterId(parameter)}|${metric.key}`)
+                        return (
+                          <td
+                            key={metric.key}
+                            className={`px-1 py-0.5 text-right tabular-nums ${outline ? 'font-bold' : ''}`}
+                            style={{
+                              backgroundColor: heatColor(effect, columnMax[column]),
+                              outline: outline ? `2px solid ${outline}` : undefined,
+                              outlineOffset: -2,
+                            }}
+                          >
+                            {effect === null ? '–' : effect === 0 ? '' : formatSigned(effect, 2)}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              ))}
+            </table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
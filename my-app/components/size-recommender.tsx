@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronRight } from 'lucide-react'
+import type { AvailableBikesMap, BikeData } from '@/types/bike'
+import { recommendSizes, type SizeRecommendation } from '@/lib/size-recommender'
+import { RATING_COLORS } from '@/lib/metric-ratings'
+import type { FitThresholds } from '@/lib/threshold-profiles'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type SizeRecommenderProps = {
+  bike: BikeData // liefert Fahrer und Ausgangs-Cockpit
+  availableBikes: AvailableBikesMap
+  thresholds?: FitThresholds
+  onLoad: (slot: 'A' | 'B', bike: BikeData) => void
+}
+
+const ALL_MODELS = '__all'
+
+/** „Welche Größe passt?“ – simuliert alle Größen mit den Fahrermaßen und rankt sie. */
+export function SizeRecommender({ bike, availableBikes, thresholds, onLoad }: SizeRecommenderProps) {
+  const [open, setOpen] = useState(false)
+  const [scope, setScope] = useState(ALL_MODELS)
+  const [results, setResults] = useState<SizeRecommendation[] | null>(null)
+
+  const models = Object.entries(availableBikes).flatMap(([brand, byModel]) =>
+    Object.keys(byModel).map((model) => ({ brand, model }))
+  )
+
+  const handleCalculate = () => {
+    const [brand, model] = scope === ALL_MODELS ? [] : scope.split('|')
+    setResults(recommendSizes(availableBikes, bike.rider, bike.cockpit, { brand, model }, thresholds))
+  }
+
+  const toBike = (recommendation: SizeRecommendation): BikeData => ({
+    brand: recommendation.brand,
+    model: recommendation.model,
+    size: recommendation.size,
+    geometry: recommendation.geometry,
+    cockpit: recommendation.cockpit,
+    rider: { ...bike.rider },
+  })
+
+  return (
+    <div className="px-6 pb-6 space-y-1">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between py-2 hover:opacity-80 transition-opacity"
+      >
+        <h3 className="text-xs font-bold text-foreground uppercase tracking-wider">Größenempfehlung</h3>
+        <ChevronRight className={`h-4 w-4 text-muted-foreground transition-transform duration-200 ${open ? 'rotate-90' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="space-y-3 p-3 bg-muted/30 rounded-md border border-border/50 animate-in slide-in-from-top-2 duration-200 text-xs">
+          <p className="text-[11px] text-muted-foreground">
+            Fahrermaße und Cockpit von {bike.brand} {bike.model} {bike.size} – Sattelhöhe über den Kniewinkel,
+            Vorbau/Spacer aus üblichen Serienteilen.
+          </p>
+          <div className="flex items-center gap-1.5">
+            <Select value={scope} onValueChange={(value) => { setScope(value); setResults(null) }}>
+              <SelectTrigger className="flex-1 px-2 text-xs data-[size=sm]:h-7" size="sm"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MODELS}>Alle Modelle</SelectItem>
+                {models.map(({ brand, model }) => (
+                  <SelectItem key={`${brand}|${model}`} value={`${brand}|${model}`}>{brand} {model}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="xs" onClick={handleCalculate}>Berechnen</Button>
+          </div>
+
+          {results && (
+            <ol className="space-y-2 max-h-96 overflow-y-auto">
+              {results.map((recommendation, index) => (
+                <li
+                  key={`${recommendation.brand}|${recommendation.model}|${recommendation.size}`}
+                  className="space-y-1 border-t border-border/50 pt-2 first:border-t-0 first:pt-0"
+                >
+                  <div className="flex items-center gap-1.5">
+                    <span className="w-5 text-muted-foreground">{index + 1}.</span>
+                    <span className="flex-1 font-medium">
+                      {recommendation.brand} {recommendation.model} {recommendation.size}
+                    </span>
+                    <span className="flex gap-0.5" title={`${recommendation.greenCount}/${recommendation.metrics.length} optimal`}>
+                      {recommendation.metrics.map((metric) => (
+                        <span
+                          key={metric.id}
+                          className="h-2 w-2 rounded-full"
+                          style={{ backgroundColor: RATING_COLORS[metric.rating] }}
+                        />
+                      ))}
+                    </span>
+                    <Button size="xs" variant="outline" onClick={() => onLoad('A', toBike(recommendation))}>A</Button>
+                    <Button size="xs" variant="outline" onClick={() => onLoad('B', toBike(recommendation))}>B</Button>
+                  </div>
+                  <ul className="pl-5 text-[10px] text-muted-foreground space-y-0.5">
+                    {recommendation.reasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  CartesianGrid,
+  LabelList,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { AvailableBikesMap, BikeData } from '@/types/bike'
+import { analyzeSizeRun, describeSizeRunStep, getHandlebarStackReach } from '@/lib/size-run'
+import { BIKE_COLORS } from '@/lib/side-view-svg'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+type SizeRunChartDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  availableBikes: AvailableBikesMap
+  bikeA: BikeData
+  bikeB: BikeData | null
+}
+
+/** Linienfarben der Modelle (A/B behalten Rot/Blau). */
+const MODEL_COLORS = ['#64748b', '#22c55e', '#8e44ad', '#f39c12', '#16a085', '#d35400']
+
+const ISSUE_COLOR = '#e74c3c'
+
+const modelKey = (bike: { brand: string; model: string }) => `${bike.brand}|${bike.model}`
+
+type ChartPoint = { x: number; y: number; label: string }
+
+/** Stack/Reach aller Größen der gewählten Modelle mit Bike A/B und Lenkerposition. */
+export function SizeRunChartDialog({ open, onOpenChange, availableBikes, bikeA, bikeB }: SizeRunChartDialogProps) {
+  const models = Object.entries(availableBikes).flatMap(([brand, byModel]) =>
+    Object.keys(byModel).map((model) => ({ brand, model }))
+  )
+  const [selected, setSelected] = useState<string[]>(() =>
+    [...new Set([modelKey(bikeA), ...(bikeB ? [modelKey(bikeB)] : [])])]
+  )
+
+  const toggleModel = (key: string) =>
+    setSelected(selected.includes(key) ? selected.filter((entry) => entry !== key) : [...selected, key])
+
+  const runs = models
+    .filter((model) => selected.includes(modelKey(model)))
+    .map((model) => ({
+      ...model,
+      analysis: analyzeSizeRun(availableBikes[model.brand]?.[model.model] ?? {}),
+    }))
+
+  // Rahmen (Reach/Stack) und Lenkermitte der aktuellen Bikes
+  const overlays = [
+    { name: 'A', bike: bikeA, color: BIKE_COLORS.A },
+    ...(bikeB ? [{ name: 'B', bike: bikeB, color: BIKE_COLORS.B }] : []),
+  ].map(({ name, bike, color }) => ({
+    name,
+    color,
+    frame: { x: bike.geometry.reach, y: bike.geometry.stack, label: `${name}: ${bike.model} ${bike.size}` },
+    handlebar: (() => {
+      const handlebar = getHandlebarStackReach(bike)
+      return { x: Math.round(handlebar.reach), y: Math.round(handlebar.stack), label: `${name}: Lenkermitte` }
+    })(),
+  }))
+
+  const irregularSteps = runs.flatMap((run) =>
+    run.analysis.steps.filter((step) => step.issues.length > 0).map((step) => ({ run, step }))
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Größenverlauf Stack / Reach</DialogTitle>
+          <DialogDescription>
+            Alle Größen der gewählten Modelle, dazu Rahmen und Lenkermitte von Bike A/B. Auffällige Größensprünge sind rot markiert.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex flex-wrap gap-1.5">
+            {models.map((model) => {
+              const key = modelKey(model)
+              return (
+                <Button
+                  key={key}
+                  size="xs"
+                  variant={selected.includes(key) ? 'default' : 'outline'}
+                  onClick={() => toggleModel(key)}
+                >
+                  {model.brand} {model.model}
+                </Button>
+              )
+            })}
+          </div>
+
+          <div className="h-96 rounded-md border border-border/50 p-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 16, right: 16, bottom: 16, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.4} />
+                <XAxis type="number" dataKey="x" name="Reach" unit=" mm" domain={['dataMin - 10', 'dataMax + 10']} tick={{ fontSize: 11 }} />
+                <YAxis type="number" dataKey="y" name="Stack" unit=" mm" domain={['dataMin - 10', 'dataMax + 10']} tick={{ fontSize: 11 }} width={70} />
+                <Tooltip
+                  cursor={{ strokeDasharray: '3 3' }}
+                  content={({ payload }) => {
+                    const point = payload?.[0]?.payload as ChartPoint | undefined
+                    if (!point) return null
+                    return (
+                      <div className="rounded-md border border-border bg-background px-2 py-1 text-xs shadow-sm">
+                        <div className="font-medium">{point.label}</div>
+                        <div className="text-muted-foreground">Stack {point.y} · Reach {point.x} mm</div>
+                      </div>
+                    )
+                  }}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+
+                {runs.map((run, index) => (
+                  <Scatter
+                    key={modelKey(run)}
+                    name={`${run.brand} ${run.model}`}
+                    data={run.analysis.points.map((point) => ({
+                      x: point.reach,
+                      y: point.stack,
+                      size: point.size,
+                      label: `${run.brand} ${run.model} ${point.size}`,
+                    }))}
+                    fill={MODEL_COLORS[index % MODEL_COLORS.length]}
+                    line
+                  >
+                    <LabelList dataKey="size" position="top" fontSize={10} />
+                  </Scatter>
+                ))}
+
+                {irregularSteps.map(({ run, step }) => (
+                  <ReferenceLine
+                    key={`${modelKey(run)}|${step.from.size}`}
+                    segment={[
+                      { x: step.from.reach, y: step.from.stack },
+                      { x: step.to.reach, y: step.to.stack },
+                    ]}
+                    stroke={ISSUE_COLOR}
+                    strokeWidth={3}
+                    strokeOpacity={0.6}
+                  />
+                ))}
+
+                {overlays.map((overlay) => (
+                  <ReferenceLine
+                    key={`${overlay.name}-line`}
+                    segment={[overlay.frame, overlay.handlebar]}
+                    stroke={overlay.color}
+                    strokeDasharray="4 3"
+                  />
+                ))}
+                {overlays.map((overlay) => (
+                  <Scatter
+                    key={overlay.name}
+                    name={`Bike ${overlay.name} (Rahmen ◆ / Lenker ▲)`}
+                    data={[overlay.frame]}
+                    fill={overlay.color}
+                    shape="diamond"
+                  />
+                ))}
+                {overlays.map((overlay) => (
+                  <Scatter
+                    key={`${overlay.name}-handlebar`}
+                    data={[overlay.handlebar]}
+                    fill={overlay.color}
+                    shape="triangle"
+                    legendType="none"
+                  />
+                ))}
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Auffälligkeiten im Größenverlauf */}
+          <div className="space-y-1">
+            <h4 className="text-xs font-bold uppercase tracking-wider">Auffälligkeiten</h4>
+            {irregularSteps.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Gleichmäßiger Größenverlauf.</p>
+            ) : (
+              <ul className="space-y-0.5 text-xs">
+                {irregularSteps.map(({ run, step }) => (
+                  <li key={`${modelKey(run)}|${step.from.size}`}>
+                    <span className="font-medium">{run.brand} {run.model}</span> · {describeSizeRunStep(step)}
+                    <span className="text-muted-foreground"> · Median-Schritt {run.analysis.medianStep.toFixed(0)} mm</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
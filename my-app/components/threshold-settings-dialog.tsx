@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  copyThresholdProfile,
+  deleteThresholdProfile,
+  getActiveThresholdProfile,
+  listThresholdProfiles,
+  THRESHOLD_FIELD_GROUPS,
+  updateThresholdProfile,
+  validateFitThresholds,
+  type FitThresholds,
+  type ThresholdProfile,
+  type ThresholdSettings,
+} from '@/lib/threshold-profiles'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type ThresholdSettingsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: ThresholdSettings
+  onChange: (settings: ThresholdSettings) => void
+}
+
+/** Auswahl und Bearbeitung der Schwellen-Profile für den Biomechanik-Check. */
+export function ThresholdSettingsDialog({ open, onOpenChange, settings, onChange }: ThresholdSettingsDialogProps) {
+  const active = getActiveThresholdProfile(settings)
+  // Entwurf gilt nur für das Profil, in dem gerade editiert wird
+  const [draft, setDraft] = useState<ThresholdProfile | null>(null)
+  const editing = draft && draft.id === active.id ? draft : active
+  const error = validateFitThresholds(editing.thresholds)
+  const dirty = editing !== active
+
+  const setThreshold = (key: keyof FitThresholds, value: number) => {
+    if (!Number.isFinite(value)) return
+    setDraft({ ...editing, thresholds: { ...editing.thresholds, [key]: value } })
+  }
+
+  const handleSave = () => {
+    if (error) return
+    onChange(updateThresholdProfile(settings, editing.id, { name: editing.name, thresholds: editing.thresholds }))
+    setDraft(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Warnschwellen</DialogTitle>
+          <DialogDescription>
+            Grenzen, gegen die der Biomechanik-Check die Messungen bewertet. Mitgelieferte Profile sind
+            fest, für eigene Werte ein Profil kopieren.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select
+            value={active.id}
+            onValueChange={(id) => {
+              setDraft(null)
+              onChange({ ...settings, activeId: id })
+            }}
+          >
+            <SelectTrigger className="flex-1 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {listThresholdProfiles(settings).map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}{profile.builtIn ? '' : ' (eigen)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => onChange(copyThresholdProfile(settings, active.id))}>
+            Kopieren
+          </Button>
+          {!active.builtIn && (
+            <Button size="sm" variant="outline" onClick={() => onChange(deleteThresholdProfile(settings, active.id))}>
+              Löschen
+            </Button>
+          )}
+        </div>
+
+        {active.builtIn ? (
+          <p className="text-xs text-muted-foreground">{active.description}</p>
+        ) : (
+          <div className="space-y-1">
+            <Label htmlFor="threshold-profile-name" className="text-xs">Name</Label>
+            <Input
+              id="threshold-profile-name"
+              value={editing.name}
+              onChange={(e) => setDraft({ ...editing, name: e.target.value })}
+              className="h-8 text-xs"
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {THRESHOLD_FIELD_GROUPS.map((group) => (
+            <div key={group.label} className="space-y-1.5 p-2 bg-muted/30 rounded-md border border-border/50">
+              <div className="text-xs font-medium">
+                {group.label} <span className="text-muted-foreground font-normal">({group.unit})</span>
+              </div>
+              <div className="grid grid-cols-4 gap-1.5">
+                {group.fields.map((field) => (
+                  <label key={field.key} className="space-y-1 text-[10px] text-muted-foreground">
+                    <span>{field.label}</span>
+                    <Input
+                      type="number"
+                      value={editing.thresholds[field.key]}
+                      disabled={active.builtIn}
+                      onChange={(e) => setThreshold(field.key, Number(e.target.value))}
+                      className="h-7 px-1 text-xs"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {!active.builtIn && (
+          <div className="flex items-center gap-2">
+            <span className="flex-1 text-xs text-destructive">{error}</span>
+            <Button size="sm" variant="ghost" disabled={!dirty} onClick={() => setDraft(null)}>
+              Verwerfen
+            </Button>
+            <Button size="sm" disabled={!dirty || error !== null} onClick={handleSave}>
+              Speichern
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { BikeData } from '@/types/bike'
+import { calculateBikeGeometry } from '@/lib/bike-geometry'
+import { RACE_THRESHOLDS, type FitThresholds } from '@/lib/threshold-profiles'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+type TorsoAngleSolverProps = {
+  bike: BikeData
+  thresholds?: FitThresholds // aktives Schwellen-Profil für den Startwert
+  onTargetChange: (targetElbowAngle: number | undefined) => void
+  onApplyTorsoAngle: (torsoAngle: number) => void
+}
+
+/** Startwert beim Einschalten: Mitte des grünen Ellbogenbereichs. */
+const defaultTargetElbowAngle = (thresholds: FitThresholds) => (thresholds.elbowMinWarning + thresholds.elbowMaxWarning) / 2
+
+/** Rückenwinkel aus Ziel-Ellbogenwinkel und Griffposition lösen statt vorgeben. */
+export function TorsoAngleSolver({ bike, thresholds = RACE_THRESHOLDS, onTargetChange, onApplyTorsoAngle }: TorsoAngleSolverProps) {
+  const target = bike.rider.targetElbowAngle
+  const result = useMemo(() => (target !== undefined ? calculateBikeGeometry(bike) : null), [bike, target])
+  const solve = result?.torsoSolve
+
+  return (
+    <div className="space-y-2 p-2 bg-muted/30 rounded-md border border-border/50 text-[11px]">
+      <label className="flex items-center gap-1.5 font-medium">
+        <input
+          type="checkbox"
+          checked={target !== undefined}
+          onChange={(e) => onTargetChange(e.target.checked ? defaultTargetElbowAngle(thresholds) : undefined)}
+        />
+        Rückenwinkel aus Ellbogenwinkel lösen
+      </label>
+      {target !== undefined && (
+        <>
+          <div className="flex items-center gap-1.5">
+            <span>Ziel-Ellbogen</span>
+            <Input
+              type="number"
+              aria-label="Ziel-Ellbogenwinkel (°)"
+              min={90}
+              max={180}
+              value={target}
+              onChange={(e) => {
+                const value = Number(e.target.value)
+                if (Number.isFinite(value)) onTargetChange(Math.max(90, Math.min(180, value)))
+              }}
+              className="h-7 w-16 px-1 text-xs"
+            />
+            <span>°</span>
+          </div>
+          {result && solve && (
+            <div className="flex items-center gap-2">
+              <div className="flex-1 text-muted-foreground">
+                Rücken <b className="text-foreground">{solve.torsoAngle.toFixed(1)}°</b> · Schulter{' '}
+                {result.shoulderAngle?.toFixed(1)}° · Ellbogen {result.elbowAngle?.toFixed(1)}°
+                {!solve.reachable && <span className="text-[#f39c12]"> · Ziel mit dieser Griffposition nicht erreichbar</span>}
+              </div>
+              <Button size="xs" variant="outline" onClick={() => onApplyTorsoAngle(Math.round(solve.torsoAngle))}>
+                Fixieren
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import { useState } from 'react'
+import type { BikeData } from '@/types/bike'
+
+/** Vergleichsschlüssel über alle Eingaben eines Bikes außer der Kurbelstellung. */
+export function staticBikeKey(bike: BikeData | null): string {
+  return bike ? JSON.stringify({ ...bike, cockpit: { ...bike.cockpit, pedalAngle: 0 } }) : ''
+}
+
+/**
+ * Stabile Referenz für aufwendige Berechnungen, die nicht von der
+ * Kurbelstellung abhängen: Die Pedal-Animation ersetzt `bike` alle 30 ms,
+ * das Ergebnis ändert sich erst, wenn sich mehr als der Pedalwinkel ändert.
+ * Der Pedalwinkel des zurückgegebenen Bikes ist daher nicht aktuell.
+ */
+export function useStaticBike<T extends BikeData | null>(bike: T): T {
+  const key = staticBikeKey(bike)
+  const [stored, setStored] = useState({ key, bike })
+  if (stored.key !== key) {
+    setStored({ key, bike })
+    return bike
+  }
+  return stored.bike
+}
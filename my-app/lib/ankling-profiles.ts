@@ -0,0 +1,61 @@
+import type { AnklingKeyframes, AnklingProfile, RiderSetup } from '@/types/bike'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export type AnklingProfileInfo = {
+  label: string
+  description: string
+  keyframes: AnklingKeyframes // Fußwinkel bei 0°/90°/180°/270°
+}
+
+export const DEFAULT_ANKLING_PROFILE: AnklingProfile = 'standard'
+
+/** Kurbelwinkel der Keyframes (0° = vorne, 90° = unten). */
+export const ANKLING_KEYFRAME_ANGLES = [0, 90, 180, 270] as const
+
+/**
+ * Fußwinkel-Verläufe (positiv = Zehen runter). 'standard' entspricht dem
+ * bisherigen festen Verlauf des Modells, 'custom' startet mit diesen Werten.
+ */
+export const ANKLING_PROFILES: Record<AnklingProfile, AnklingProfileInfo> = {
+  standard: {
+    label: 'Standard',
+    description: 'Moderates Ankling, Zehen hinten am tiefsten',
+    keyframes: [10, 20, 30, 22],
+  },
+  flat: {
+    label: 'Flach',
+    description: 'Fuß bleibt nahezu waagerecht',
+    keyframes: [3, 8, 12, 8],
+  },
+  heelDrop: {
+    label: 'Ferse tief',
+    description: 'Ferse in der Druckphase unter den Zehen',
+    keyframes: [-5, 5, 20, 10],
+  },
+  toeDown: {
+    label: 'Zehen tief',
+    description: 'Durchgehend gestreckter Fuß',
+    keyframes: [20, 30, 40, 32],
+  },
+  custom: {
+    label: 'Eigene Werte',
+    description: 'Fußwinkel je Kurbelstellung frei einstellbar',
+    keyframes: [10, 20, 30, 22],
+  },
+}
+
+export const ANKLING_PROFILE_IDS = Object.keys(ANKLING_PROFILES) as AnklingProfile[]
+
+// ════════════════════════════════════════════════════════════════════════════
+// FUNCTIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Keyframes des Fahrers: eigene Werte bei 'custom', sonst aus dem Profil. */
+export function getAnklingKeyframes(rider: Pick<RiderSetup, 'anklingProfile' | 'anklingKeyframes'>): AnklingKeyframes {
+  const profile = rider.anklingProfile ?? DEFAULT_ANKLING_PROFILE
+  if (profile === 'custom' && rider.anklingKeyframes) return rider.anklingKeyframes
+  return ANKLING_PROFILES[profile].keyframes
+}
@@ -1,9 +1,12 @@
-import type { BikeData } from '@/types/bike'
+import type { AnklingKeyframes, BikeData, CockpitSetup, RiderSetup } from '@/types/bike'
 import {
   COCKPIT_CONSTANTS,
   SADDLE_CONSTANTS,
   PEDAL_CONSTANTS,
 } from '@/lib/defaults'
+import { getRiderProportions } from '@/lib/rider-proportions'
+import type { RiderSegmentField } from '@/lib/setup-fields'
+import { ANKLING_KEYFRAME_ANGLES, getAnklingKeyframes } from '@/lib/ankling-profiles'
 
 // ════════════════════════════════════════════════════════════════════════════
 // TYPES & CONSTANTS
@@ -29,10 +32,41 @@ export type BikeGeometryResult = {
   elbowAngle?: number // Ellbogenwinkel: Schulter→Ellbogen→Hand in Grad
   ankleAngle?: number // Sprunggelenkwinkel: cleatBottom→footContact und footContact→kneeNew in Grad
   ankleAngleAt270?: number // Sprunggelenkwinkel bei 270°
+  hipAngle?: number // Hüftwinkel: Oberkörper↔Oberschenkel am Hüftgelenk (aktueller Pedalwinkel)
+  hipAngleAt270?: number // Hüftwinkel am oberen Totpunkt (270°)
+  hipAngleMin?: number // geschlossenster Hüftwinkel über die Kurbelumdrehung
+  hipAngleMax?: number // offenster Hüftwinkel über die Kurbelumdrehung
+  torsoAngle?: number // effektiver Oberkörperwinkel in Grad (eingegeben oder gelöst)
+  torsoSolve?: TorsoSolve // nur gesetzt, wenn der Oberkörperwinkel aus dem Ellbogenwinkel gelöst wurde
   bbToSaddleDistance?: number // Abstand Tretlager zu Satteloberkante in mm
   bbToSeatPostDistance?: number // Abstand Tretlager zu SeatPost-Top in mm
 }
 
+/** Oberkörperwinkel aus Ziel-Ellbogenwinkel (siehe `RiderSetup.targetElbowAngle`). */
+export type TorsoSolve = {
+  targetElbowAngle: number
+  torsoAngle: number // gelöster Oberkörperwinkel in Grad
+  reachable: boolean // false = Ziel nicht erreichbar, Winkel auf nächstmöglichen Wert begrenzt
+}
+
+/** Fuß am Pedal: Hebel Cleat → Sprunggelenk und Fußwinkel-Verlauf. */
+export type FootModel = {
+  cleatToAnkle: number // mm, Fußballen → Sprunggelenk abzüglich Cleat-Versatz
+  keyframes: AnklingKeyframes // Fußwinkel bei 0°/90°/180°/270°
+}
+
+/** Segmentlängen des Fahrers in mm – gemessen oder aus Körperproportionen. */
+export type RiderSegments = {
+  thigh: number // Hüftgelenk → Knie
+  shank: number // Knie → Sprunggelenk (Fußkontakt)
+  foot: number // Fußballen (Cleat) → Sprunggelenk
+  torso: number // Sitzpunkt → Schulter
+  upperArm: number // Schulter → Ellbogen
+  forearm: number // Ellbogen → Hand
+  head: number
+  neck: number
+}
+
 /** Punkt-IDs, die als Räder gezeichnet werden (Kreise). */
 export const WHEEL_POINT_IDS = ['frontWheel', 'rearWheel'] as const
 
@@ -73,24 +107,24 @@ export const SCALE = 0.8
 // HINWEIS: Körpergröße, Innenbeinlänge, Oberkörperwinkel und Schuhdicke
 // kommen aus bike.rider und werden in der Berechnung verwendet.
 
-// Beinlängen-Verhältnisse (prozentual zur Innenbeinlänge)
-const UPPER_LEG_RATIO = 0.56 // Oberschenkel: 56% der Innenbeinlänge
-const LOWER_LEG_RATIO = 0.44 // Unterschenkel: 44% der Innenbeinlänge
-
-// Oberkörper-Proportionen (prozentual zur Körpergröße)
-const HEAD_RATIO = 0.12      // Kopfhöhe: 12%
-const NECK_RATIO = 0.055     // Halslänge: 5.5%
+// Segment-Verhältnisse (Bein, Kopf, Hals, Arme) kommen aus dem Proportionen-Preset
+// des Fahrers, siehe RIDER_PROPORTION_PRESETS in lib/rider-proportions.ts.
+export const HIP_JOINT_OFFSET_RATIO = 0.095 // Sattel → Hüftgelenk: 9,5% der Innenbeinlänge
 const HEAD_WIDTH_RATIO = 0.7 // Kopfbreite: 70% der Kopfhöhe
 
-// Arm-Proportionen (prozentual zur Körpergröße)
-const UPPER_ARM_RATIO = 0.186 // Oberarm: 18.6%
-const LOWER_ARM_RATIO = 0.146 // Unterarm: 14.6%
-
 // Schuh & Cleat (Kontaktpunkt Fuß-Pedal)
-const CLEAT_SETBACK = 130        // mm - Abstand Pedalachse → Fußballen (nach hinten)
+const CLEAT_SETBACK = 130        // mm - Abstand Fußballen → Sprunggelenk ohne gemessene Fußlänge
+const FOOT_CLEAT_TO_ANKLE_RATIO = 0.5 // Fußballen → Sprunggelenk: 50% der Fußlänge (gemessen)
 const FOOT_ANGLE_DEFAULT = 10    // Grad - Standard-Fußwinkel (leicht nach unten)
 const SHOE_EXT_AFT = 20          // mm - Schuh-Verlängerung hinter Cleat (aktuell ungenutzt)
 
+// Erlaubter Bereich (Grad) für den gelösten Oberkörperwinkel (wie die Eingabe)
+const TORSO_ANGLE_SOLVE_MIN = 0
+const TORSO_ANGLE_SOLVE_MAX = 90
+
+// Schrittweite (Grad) für Hüftwinkel-Min/Max über die Kurbelumdrehung
+const HIP_ANGLE_SWEEP_STEP = 10
+
 // ════════════════════════════════════════════════════════════════════════════
 // Warnschwellen für biomechanische Messungen
 // ════════════════════════════════════════════════════════════════════════════
@@ -121,30 +155,126 @@ function calculateHorizontalDistance(hypotenuse: number, verticalOffset: number)
   return Math.sqrt(Math.max(0, hypotenuse * hypotenuse - verticalOffset * verticalOffset))
 }
 
+/**
+ * Segmentlängen des Fahrers. Gemessene Werte aus `rider` haben Vorrang,
+ * fehlende werden aus Körpergröße und Innenbeinlänge mit den Verhältnissen
+ * des Proportionen-Presets abgeleitet.
+ *
+ * Die Schulterhöhe ersetzt die Proportionen für Oberkörper (Schulterhöhe −
+ * Innenbeinlänge) sowie Kopf + Hals (Körpergröße − Schulterhöhe).
+ */
+export function resolveRiderSegments(rider: RiderSetup): RiderSegments {
+  const { riderHeight, riderInseam } = rider
+  const ratios = getRiderProportions(rider.proportionPreset)
+  const anatomicalInseam = riderInseam * (1 + HIP_JOINT_OFFSET_RATIO)
+
+  const headNeck = rider.shoulderHeight !== undefined
+    ? riderHeight - rider.shoulderHeight
+    : riderHeight * (ratios.head + ratios.neck)
+  const head = headNeck * ratios.head / (ratios.head + ratios.neck)
+  const neck = headNeck - head
+
+  return {
+    thigh: rider.thighLength ?? anatomicalInseam * ratios.thigh,
+    shank: rider.shankLength ?? anatomicalInseam * (1 - ratios.thigh),
+    foot: rider.footLength !== undefined ? rider.footLength * FOOT_CLEAT_TO_ANKLE_RATIO : CLEAT_SETBACK,
+    torso: rider.torsoLength ?? riderHeight - riderInseam - headNeck,
+    upperArm: rider.upperArmLength ?? riderHeight * ratios.upperArm,
+    forearm: rider.forearmLength ?? riderHeight * ratios.forearm,
+    head,
+    neck,
+  }
+}
+
+/**
+ * Effektive Körpermaße als Eingabewerte: gemessene Werte aus `rider`,
+ * fehlende so ergänzt, dass sie dieselben Segmentlängen ergeben wie die
+ * Ableitung aus den Proportionen (z.B. als Startwert für Variationen).
+ */
+export function resolveRiderMeasurements(rider: RiderSetup): Record<RiderSegmentField, number> {
+  const segments = resolveRiderSegments(rider)
+  return {
+    thighLength: segments.thigh,
+    shankLength: segments.shank,
+    footLength: segments.foot / FOOT_CLEAT_TO_ANKLE_RATIO,
+    torsoLength: segments.torso,
+    upperArmLength: segments.upperArm,
+    forearmLength: segments.forearm,
+    shoulderHeight: rider.riderHeight - segments.head - segments.neck,
+  }
+}
+
+/**
+ * Oberkörperwinkel (Grad), bei dem der Arm zwischen Schulter und Hand den
+ * Ziel-Ellbogenwinkel bildet.
+ *
+ * Der Ellbogenwinkel legt über den Kosinussatz den Abstand Schulter → Hand
+ * fest; die Schulter liegt auf einem Kreis (Radius Oberkörperlänge) um den
+ * Hüftpunkt. Von den beiden Schnittpunkten wird der obere (aufrechtere)
+ * genommen. Alle Längen in SVG-Einheiten.
+ */
+function solveTorsoAngleForElbow(
+  hipPos: Point2D,
+  handPos: Point2D,
+  torsoLength: number,
+  upperArm: number,
+  forearm: number,
+  targetElbowAngleDeg: number
+): TorsoSolve {
+  const elbowRad = toRadians(targetElbowAngleDeg)
+  const shoulderToHand = Math.sqrt(
+    upperArm * upperArm + forearm * forearm - 2 * upperArm * forearm * Math.cos(elbowRad)
+  )
+
+  const dx = handPos.x - hipPos.x
+  const dy = handPos.y - hipPos.y
+  const hipToHand = Math.sqrt(dx * dx + dy * dy)
+  const handAngle = Math.atan2(-dy, dx) // SVG: Y nach unten
+
+  // Kosinussatz im Dreieck Hüfte – Schulter – Hand
+  const cosOffset =
+    (torsoLength * torsoLength + hipToHand * hipToHand - shoulderToHand * shoulderToHand) /
+    (2 * torsoLength * hipToHand)
+  const clampedCos = Math.max(-1, Math.min(1, cosOffset))
+  const angle = ((handAngle + Math.acos(clampedCos)) * 180) / Math.PI
+  const torsoAngle = Math.max(TORSO_ANGLE_SOLVE_MIN, Math.min(TORSO_ANGLE_SOLVE_MAX, angle))
+
+  return {
+    targetElbowAngle: targetElbowAngleDeg,
+    torsoAngle,
+    reachable: clampedCos === cosOffset && torsoAngle === angle,
+  }
+}
+
+/**
+ * Fuß-Modell aus Fahrer und Cockpit: Cleat-Versatz verkürzt den Hebel
+ * Fußballen → Sprunggelenk, das Ankling-Profil liefert die Fußwinkel.
+ */
+export function resolveFootModel(bike: Pick<BikeData, 'rider' | 'cockpit'>): FootModel {
+  return {
+    cleatToAnkle: resolveRiderSegments(bike.rider).foot - (bike.cockpit.cleatOffset ?? 0),
+    keyframes: getAnklingKeyframes(bike.rider),
+  }
+}
+
 /**
  * Berechnet den realistischen Fußwinkel basierend auf dem Pedalwinkel.
- * Verwendet Cosinus-Interpolation (Smooth Step) zwischen definierten Keyframes.
- * 
- * Keyframes (Fußwinkel relativ zur Horizontalen, positiv = Zehen runter):
- * - 0° (3 Uhr): 10°
- * - 90° (6 Uhr): 20°
- * - 180° (9 Uhr): 30°
- * - 270° (12 Uhr): 22°
+ * Verwendet Cosinus-Interpolation (Smooth Step) zwischen den Keyframes des
+ * Ankling-Profils (Fußwinkel relativ zur Horizontalen, positiv = Zehen runter,
+ * bei 0°, 90°, 180° und 270°).
  * 
  * @param pedalAngleDeg - Pedalwinkel in Grad (0° = vorne, 90° = unten, 180° = hinten, 270° = oben)
+ * @param footAngles - Fußwinkel bei 0°/90°/180°/270°
  * @returns Fußwinkel in Grad (positiv = Zehen nach unten)
  */
-function getRealFootAngle(pedalAngleDeg: number): number {
+function getRealFootAngle(pedalAngleDeg: number, footAngles: AnklingKeyframes): number {
   // Normalisiere auf 0-360°
   const angle = ((pedalAngleDeg % 360) + 360) % 360
   
   // Keyframes: [pedalAngle, footAngle]
   const keyframes: [number, number][] = [
-    [0, 10],
-    [90, 20],
-    [180, 30],
-    [270, 22],
-    [360, 10], // Gleich wie 0° für nahtlose Interpolation
+    ...ANKLING_KEYFRAME_ANGLES.map((pedalAngle, i): [number, number] => [pedalAngle, footAngles[i]]),
+    [360, footAngles[0]], // Gleich wie 0° für nahtlose Interpolation
   ]
   
   // Finde die beiden umgebenden Keyframes
@@ -169,32 +299,24 @@ function getRealFootAngle(pedalAngleDeg: number): number {
   return foot1 + (foot2 - foot1) * smoothProgress
 }
 
+/** Bein-Stellung (Hüftgelenk, Knie, Fußkontakt) bei einem Pedalwinkel. */
+type LegPose = { hipJointPos: Point2D; kneePos: Point2D; footPos: Point2D }
+
 /**
- * Berechnet den Kniewinkel für einen spezifischen Pedalwinkel.
- * 
- * Verwendet inverse Kinematik (IK) um die Position von Knie und Hüfte zu berechnen,
- * basierend auf den anatomischen Beinlängen (Innenbeinlänge + Hüftgelenk-Offset).
- * 
- * @param pedalAngleDeg - Pedalwinkel in Grad (0° = vorne, 90° = unten, 180° = hinten, 270° = oben)
- * @param crankLength - Kurbellänge in mm
- * @param seatPos - Position des Sattels (Sattel-Mittelpunkt)
- * @param bbPos - Position des Tretlagers (Bottom Bracket)
- * @param riderInseam - Innenbeinlänge des Fahrers in mm
- * @param cleatDrop - Schuhdicke in mm (Pedalachse → Fußsohle)
- * @param hipJointOffsetScaled - Offset vom Sattel zum Hüftgelenk in SVG-Einheiten (bereits skaliert)
- * @param torsoAngleRad - Oberkörperwinkel in Radiant (relativ zur Horizontalen)
- * @returns Kniewinkel in Grad (Innenwinkel zwischen Unter- und Oberschenkel)
+ * Inverse Kinematik des Beins für einen spezifischen Pedalwinkel.
+ * Parameter wie bei `calculateKneeAngleAtPedalAngle`.
  */
-function calculateKneeAngleAtPedalAngle(
+function solveLegAtPedalAngle(
   pedalAngleDeg: number,
   crankLength: number,
   seatPos: Point2D,
   bbPos: Point2D,
-  riderInseam: number,
+  segments: RiderSegments,
+  foot: FootModel,
   cleatDrop: number,
   hipJointOffsetScaled: number,
   torsoAngleRad: number
-): number {
+): LegPose {
   const pedalAngleRad = toRadians(pedalAngleDeg)
   const crankScaled = crankLength * SCALE
   
@@ -205,9 +327,9 @@ function calculateKneeAngleAtPedalAngle(
   }
   
   // Fußposition (vereinfacht, ohne dynamischen Fußwinkel)
-  const cleatSetback = CLEAT_SETBACK * SCALE
+  const cleatSetback = foot.cleatToAnkle * SCALE
   const cleatDropScaled = cleatDrop * SCALE
-  const baseDynamicFootAngle = getRealFootAngle(pedalAngleDeg)
+  const baseDynamicFootAngle = getRealFootAngle(pedalAngleDeg, foot.keyframes)
   const footAngleRad = toRadians(baseDynamicFootAngle)
   
   const cleatBottomPos: Point2D = {
@@ -226,10 +348,9 @@ function calculateKneeAngleAtPedalAngle(
     y: seatPos.y - hipJointOffsetScaled * Math.sin(torsoAngleRad),
   }
   
-  // Beinlängen (anatomisch korrekt: Inseam + Offset zum Hüftgelenk)
-  const anatomicalInseam = riderInseam + hipJointOffsetScaled / SCALE
-  const lowerLegLength = anatomicalInseam * LOWER_LEG_RATIO * SCALE
-  const upperLegLength = anatomicalInseam * UPPER_LEG_RATIO * SCALE
+  // Beinlängen (gemessen oder anatomisch: Inseam + Offset zum Hüftgelenk)
+  const lowerLegLength = segments.shank * SCALE
+  const upperLegLength = segments.thigh * SCALE
   const totalLegLength = lowerLegLength + upperLegLength
   
   // Knie-Position berechnen (von hipJoint zu footPos)
@@ -263,6 +384,61 @@ function calculateKneeAngleAtPedalAngle(
     }
   }
   
+  return { hipJointPos, kneePos, footPos }
+}
+
+/**
+ * Winkel zwischen Oberkörper (Richtung `torsoAngleRad`) und Oberschenkel
+ * (Hüftgelenk → Knie) in Grad. Klein = geschlossene Hüfte.
+ */
+function calculateHipAngle(hipJointPos: Point2D, kneePos: Point2D, torsoAngleRad: number): number {
+  const angleToKnee = Math.atan2(kneePos.y - hipJointPos.y, kneePos.x - hipJointPos.x)
+  const angleToShoulder = -torsoAngleRad // SVG: Y nach unten
+  let hipAngle = Math.abs((angleToShoulder - angleToKnee) * 180 / Math.PI)
+  if (hipAngle > 180) hipAngle = 360 - hipAngle
+  return hipAngle
+}
+
+/**
+ * Berechnet den Kniewinkel für einen spezifischen Pedalwinkel.
+ * 
+ * Verwendet inverse Kinematik (IK) um die Position von Knie und Hüfte zu berechnen,
+ * basierend auf den Segmentlängen aus `resolveRiderSegments`.
+ * 
+ * @param pedalAngleDeg - Pedalwinkel in Grad (0° = vorne, 90° = unten, 180° = hinten, 270° = oben)
+ * @param crankLength - Kurbellänge in mm
+ * @param seatPos - Position des Sattels (Sattel-Mittelpunkt)
+ * @param bbPos - Position des Tretlagers (Bottom Bracket)
+ * @param segments - Segmentlängen des Fahrers (Ober-/Unterschenkel)
+ * @param foot - Fuß-Modell (Cleat → Sprunggelenk, Ankling-Profil)
+ * @param cleatDrop - Schuhdicke in mm (Pedalachse → Fußsohle)
+ * @param hipJointOffsetScaled - Offset vom Sattel zum Hüftgelenk in SVG-Einheiten (bereits skaliert)
+ * @param torsoAngleRad - Oberkörperwinkel in Radiant (relativ zur Horizontalen)
+ * @returns Kniewinkel in Grad (Innenwinkel zwischen Unter- und Oberschenkel)
+ */
+export function calculateKneeAngleAtPedalAngle(
+  pedalAngleDeg: number,
+  crankLength: number,
+  seatPos: Point2D,
+  bbPos: Point2D,
+  segments: RiderSegments,
+  foot: FootModel,
+  cleatDrop: number,
+  hipJointOffsetScaled: number,
+  torsoAngleRad: number
+): number {
+  const { hipJointPos, kneePos, footPos } = solveLegAtPedalAngle(
+    pedalAngleDeg,
+    crankLength,
+    seatPos,
+    bbPos,
+    segments,
+    foot,
+    cleatDrop,
+    hipJointOffsetScaled,
+    torsoAngleRad
+  )
+
   // Kniewinkel berechnen
   const kneeToFoot = {
     x: footPos.x - kneePos.x,
@@ -280,6 +456,37 @@ function calculateKneeAngleAtPedalAngle(
   return kneeAngle
 }
 
+/**
+ * Berechnet den Hüftwinkel (Oberkörper ↔ Oberschenkel) für einen spezifischen
+ * Pedalwinkel. Parameter wie bei `calculateKneeAngleAtPedalAngle`.
+ *
+ * @returns Hüftwinkel in Grad (klein = geschlossene Hüfte)
+ */
+export function calculateHipAngleAtPedalAngle(
+  pedalAngleDeg: number,
+  crankLength: number,
+  seatPos: Point2D,
+  bbPos: Point2D,
+  segments: RiderSegments,
+  foot: FootModel,
+  cleatDrop: number,
+  hipJointOffsetScaled: number,
+  torsoAngleRad: number
+): number {
+  const { hipJointPos, kneePos } = solveLegAtPedalAngle(
+    pedalAngleDeg,
+    crankLength,
+    seatPos,
+    bbPos,
+    segments,
+    foot,
+    cleatDrop,
+    hipJointOffsetScaled,
+    torsoAngleRad
+  )
+  return calculateHipAngle(hipJointPos, kneePos, torsoAngleRad)
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // MAIN CALCULATION FUNCTION
 // ════════════════════════════════════════════════════════════════════════════
@@ -313,10 +520,10 @@ export function calculateBikeGeometry(
   // ──────────────────────────────────────────────────────────────────────────
   // FAHRER-PARAMETER (aus bike.rider)
   // ──────────────────────────────────────────────────────────────────────────
-  const RIDER_HEIGHT = rider.riderHeight    // mm - Körpergröße
   const RIDER_INSEAM = rider.riderInseam    // mm - Innenbeinlänge (Schritt bis Boden)
-  const TORSO_ANGLE = rider.torsoAngle      // Grad - Oberkörperneigung
   const CLEAT_DROP = rider.shoeThickness    // mm - Schuhdicke (Pedalachse → Fußsohle)
+  const SEGMENTS = resolveRiderSegments(rider) // mm - gemessene oder proportionale Segmentlängen
+  const FOOT = resolveFootModel(bike)          // Cleat-Hebel + Ankling-Profil
 
   const points: Record<string, Point2D> = {}
   const segments: Segment[] = []
@@ -377,39 +584,10 @@ export function calculateBikeGeometry(
   // 3. COCKPIT (Spacer, Vorbau, Lenker)
   // ──────────────────────────────────────────────────────────────────────────
 
-  // Oberkante Spacer-Stack (oberhalb Steuerrohr)
-  const spacerStackHeight = (
-    cockpit.spacerHeight +
-    cockpit.headsetCap +
-    COCKPIT_CONSTANTS.headsetBearingDiameter / 2
-  ) * SCALE
-  
-  const spacerOffsetX = spacerStackHeight * Math.cos(headTubeAngleRad)
-  const spacerOffsetY = spacerStackHeight * Math.sin(headTubeAngleRad)
-  
-  points.spacerUp = {
-    x: points.headTubeTop.x - spacerOffsetX,
-    y: points.headTubeTop.y - spacerOffsetY,
-  }
-
-  // Vorbau-Ende (Stem Front)
-  const stemAngleRad = toRadians(cockpit.stemAngle)
-  const stemAngleTotal = headTubeAngleRad - stemAngleRad
-  const stemLengthScaled = cockpit.stemLength * SCALE
-  
-  const stemOffsetX = Math.sin(stemAngleTotal) * stemLengthScaled
-  const stemOffsetY = -Math.cos(stemAngleTotal) * stemLengthScaled
-  
-  points.stemFront = {
-    x: points.spacerUp.x + stemOffsetX,
-    y: points.spacerUp.y + stemOffsetY,
-  }
-
-  // Lenkermitte (Handlebar Center)
-  points.handlebarCenter = {
-    x: points.stemFront.x + cockpit.handlebarReach * SCALE,
-    y: points.stemFront.y,
-  }
+  const cockpitPoints = calculateCockpitPoints(points.headTubeTop, headTubeAngle, cockpit)
+  points.spacerUp = cockpitPoints.spacerUp
+  points.stemFront = cockpitPoints.stemFront
+  points.handlebarCenter = cockpitPoints.handlebarCenter
 
   // Lenker-Drop als Halbkreis-Bogen
   createHandlebarArc(points, segments, cockpit.handlebarDrop)
@@ -494,8 +672,9 @@ export function calculateBikeGeometry(
   // 6. FAHRER (Beine & Fuß)
   // ──────────────────────────────────────────────────────────────────────────
 
-  const lowerLegLength = RIDER_INSEAM * LOWER_LEG_RATIO * SCALE
-  const upperLegLength = RIDER_INSEAM * UPPER_LEG_RATIO * SCALE
+  // Basis-Check ab Satteloberkante: Segmente ohne Hüftgelenk-Offset
+  const lowerLegLength = SEGMENTS.shank / (1 + HIP_JOINT_OFFSET_RATIO) * SCALE
+  const upperLegLength = SEGMENTS.thigh / (1 + HIP_JOINT_OFFSET_RATIO) * SCALE
 
   // Fußposition: Cleat-Kontaktpunkt liegt hinter und unter der Pedalachse
   const pedalPos = points.pedalRight
@@ -512,14 +691,14 @@ export function calculateBikeGeometry(
   const stretch = distPedalToSeat / totalLegLength
   
   // Dynamischer Fußwinkel: biomechanisch realistische Bewegung basierend auf Pedalposition
-  const baseDynamicFootAngle = getRealFootAngle(cockpit.pedalAngle)
+  const baseDynamicFootAngle = getRealFootAngle(cockpit.pedalAngle, FOOT.keyframes)
   
   const footAngle = stretch > 1.0 
     ? baseDynamicFootAngle + (stretch - 1.0) * 30 // Bei Streckung: Fuß stärker nach unten
     : baseDynamicFootAngle
   
   const footAngleRad = toRadians(footAngle)
-  const cleatSetback = CLEAT_SETBACK * SCALE
+  const cleatSetback = FOOT.cleatToAnkle * SCALE
   const cleatDrop = CLEAT_DROP * SCALE
   
   // Cleat-Verbindung: vertikale Linie vom Pedal nach unten (nur cleatDrop)
@@ -623,9 +802,9 @@ export function calculateBikeGeometry(
   // 7. OBERKÖRPER (Torso, Hals, Kopf, Arme)
   // ──────────────────────────────────────────────────────────────────────────
 
-  const headHeight = RIDER_HEIGHT * HEAD_RATIO * SCALE
-  const neckLength = RIDER_HEIGHT * NECK_RATIO * SCALE
-  const torsoLength = (RIDER_HEIGHT - RIDER_INSEAM - headHeight / SCALE - neckLength / SCALE) * SCALE
+  const headHeight = SEGMENTS.head * SCALE
+  const neckLength = SEGMENTS.neck * SCALE
+  const torsoLength = SEGMENTS.torso * SCALE
   
 const sitboneOffset = typeof cockpit.sitboneOffset === 'number' ? cockpit.sitboneOffset : -20;
 const sitPos = {
@@ -635,11 +814,28 @@ const sitPos = {
 
   // Hüfte (visuell) = Sattel-Mittelpunkt
   points.hip = sitPos
-  
+
+  const handPos = cockpit.handPosition === 'drops' && points.handlebarDropEnd
+    ? points.handlebarDropEnd
+    : points.handlebarCenter
+
+  // Oberkörperwinkel: Eingabe oder – mit Ziel-Ellbogenwinkel – aus der Handposition gelöst
+  const torsoSolution = rider.targetElbowAngle !== undefined
+    ? solveTorsoAngleForElbow(
+        points.hip,
+        handPos,
+        torsoLength,
+        SEGMENTS.upperArm * SCALE,
+        SEGMENTS.forearm * SCALE,
+        rider.targetElbowAngle
+      )
+    : null
+  const TORSO_ANGLE = torsoSolution?.torsoAngle ?? rider.torsoAngle // Grad - Oberkörperneigung
+
   // Hüftgelenk (anatomisch korrekt): 9,5% der Innenbeinlänge vom Sattel nach vorne/oben
   // entlang des Oberkörperwinkels (Torso-Vektor)
   const torsoAngle = toRadians(TORSO_ANGLE)
-  const hipJointOffset = RIDER_INSEAM * 0.095 * SCALE // 9,5% Offset für anatomisches Hüftgelenk
+  const hipJointOffset = RIDER_INSEAM * HIP_JOINT_OFFSET_RATIO * SCALE // Offset für anatomisches Hüftgelenk
   points.hipJoint = {
     x: sitPos.x + hipJointOffset * Math.cos(torsoAngle),
     y: sitPos.y - hipJointOffset * Math.sin(torsoAngle),
@@ -657,10 +853,9 @@ const sitPos = {
   const dyHipFoot = hipJointPos.y - footPos.y
   const distHipToFoot = Math.sqrt(dxHipFoot * dxHipFoot + dyHipFoot * dyHipFoot)
 
-  // Anatomische Beinlänge = Innenbeinlänge + Hüftgelenk-Offset
-  const anatomicalInseam = RIDER_INSEAM + hipJointOffset / SCALE
-  const newLowerLegLength = anatomicalInseam * LOWER_LEG_RATIO * SCALE
-  const newUpperLegLength = anatomicalInseam * UPPER_LEG_RATIO * SCALE
+  // Gemessene Segmente oder anatomische Beinlänge (Innenbeinlänge + Hüftgelenk-Offset)
+  const newLowerLegLength = SEGMENTS.shank * SCALE
+  const newUpperLegLength = SEGMENTS.thigh * SCALE
   const newTotalLegLength = newLowerLegLength + newUpperLegLength
 
   // Knie-Position via IK (von Hüftgelenk zu Fußkontakt)
@@ -737,17 +932,14 @@ const sitPos = {
   // ARM-POSITION: Inverse Kinematik (Schulter → Ellbogen → Lenker)
   // ──────────────────────────────────────────────────────────────────────────
   
-  const handPos = cockpit.handPosition === 'drops' && points.handlebarDropEnd
-    ? points.handlebarDropEnd
-    : points.handlebarCenter
   const shoulderPos = points.shoulder
   
   const armDx = handPos.x - shoulderPos.x
   const armDy = handPos.y - shoulderPos.y
   const armDist = Math.sqrt(armDx * armDx + armDy * armDy)
   
-  const upperArmScaled = RIDER_HEIGHT * UPPER_ARM_RATIO * SCALE
-  const lowerArmScaled = RIDER_HEIGHT * LOWER_ARM_RATIO * SCALE
+  const upperArmScaled = SEGMENTS.upperArm * SCALE
+  const lowerArmScaled = SEGMENTS.forearm * SCALE
   const totalArmLength = upperArmScaled + lowerArmScaled
   
   let elbowPos: Point2D
@@ -847,7 +1039,8 @@ const sitPos = {
     cockpit.crankLength,
     points.saddleTop,
     points.bb,
-    RIDER_INSEAM,
+    SEGMENTS,
+    FOOT,
     CLEAT_DROP,
     hipJointOffset,
     torsoAngle
@@ -858,12 +1051,49 @@ const sitPos = {
     cockpit.crankLength,
     points.saddleTop,
     points.bb,
-    RIDER_INSEAM,
+    SEGMENTS,
+    FOOT,
     CLEAT_DROP,
     hipJointOffset,
     torsoAngle
   )
 
+  // ──────────────────────────────────────────────────────────────────────────
+  // HÜFTWINKEL: Oberkörper ↔ Oberschenkel
+  // ──────────────────────────────────────────────────────────────────────────
+  // Sweep vom selben Sitzpunkt wie `points.hipJoint` (inkl. Sitzposition), damit er zum aktuellen Wert passt
+  const hipAngle = calculateHipAngle(points.hipJoint, points.kneeNew, torsoAngle)
+  const hipAngleAt270 = calculateHipAngleAtPedalAngle(
+    270,
+    cockpit.crankLength,
+    sitPos,
+    points.bb,
+    SEGMENTS,
+    FOOT,
+    CLEAT_DROP,
+    hipJointOffset,
+    torsoAngle
+  )
+
+  // Geschlossene/offene Hüfte über die volle Kurbelumdrehung
+  let hipAngleMin = hipAngleAt270
+  let hipAngleMax = hipAngleAt270
+  for (let angle = 0; angle < 360; angle += HIP_ANGLE_SWEEP_STEP) {
+    const value = calculateHipAngleAtPedalAngle(
+      angle,
+      cockpit.crankLength,
+      sitPos,
+      points.bb,
+      SEGMENTS,
+      FOOT,
+      CLEAT_DROP,
+      hipJointOffset,
+      torsoAngle
+    )
+    hipAngleMin = Math.min(hipAngleMin, value)
+    hipAngleMax = Math.max(hipAngleMax, value)
+  }
+
   // ──────────────────────────────────────────────────────────────────────────
   // ÜBERHÖHUNG: Y-Abstand zwischen Sattel und Lenker
   // ──────────────────────────────────────────────────────────────────────────
@@ -881,7 +1111,7 @@ const sitPos = {
   }
   
   // Fußposition bei 0° (vereinfacht: gleiche Cleat-Logik wie bei aktueller Pedalstellung)
-  const baseDynamicFootAngleAt0 = getRealFootAngle(0)
+  const baseDynamicFootAngleAt0 = getRealFootAngle(0, FOOT.keyframes)
   const footAngleAt0Rad = toRadians(baseDynamicFootAngleAt0)
   
   const cleatBottomAt0: Point2D = {
@@ -984,7 +1214,7 @@ const sitPos = {
     x: points.bb.x + Math.cos(pedalAngle270Rad) * crankLength,
     y: points.bb.y + Math.sin(pedalAngle270Rad) * crankLength,
   }
-  const baseDynamicFootAngleAt270 = getRealFootAngle(270)
+  const baseDynamicFootAngleAt270 = getRealFootAngle(270, FOOT.keyframes)
   const footAngleAt270Rad = toRadians(baseDynamicFootAngleAt270)
   const cleatBottomAt270: Point2D = {
     x: pedalAt270.x,
@@ -1064,6 +1294,12 @@ const sitPos = {
     elbowAngle,
     ankleAngle,
     ankleAngleAt270,
+    hipAngle,
+    hipAngleAt270,
+    hipAngleMin,
+    hipAngleMax,
+    torsoAngle: TORSO_ANGLE,
+    torsoSolve: torsoSolution ?? undefined,
     bbToSaddleDistance,
     bbToSeatPostDistance
   }
@@ -1073,6 +1309,49 @@ const sitPos = {
 // SPECIALIZED HELPERS
 // ════════════════════════════════════════════════════════════════════════════
 
+/**
+ * Berechnet die Cockpit-Kette Spacer-Oberkante → Vorbau-Ende → Lenkermitte.
+ *
+ * @param headTubeTop - Oberkante Steuerrohr (SVG-Einheiten)
+ * @param headTubeAngle - Lenkwinkel in Grad
+ * @param cockpit - Spacer, Top Cap, Vorbau (Länge/Winkel) und Lenker-Reach
+ */
+export function calculateCockpitPoints(
+  headTubeTop: Point2D,
+  headTubeAngle: number,
+  cockpit: Pick<CockpitSetup, 'spacerHeight' | 'headsetCap' | 'stemLength' | 'stemAngle' | 'handlebarReach'>
+): { spacerUp: Point2D; stemFront: Point2D; handlebarCenter: Point2D } {
+  const headTubeAngleRad = toRadians(headTubeAngle)
+
+  // Oberkante Spacer-Stack (oberhalb Steuerrohr)
+  const spacerStackHeight = (
+    cockpit.spacerHeight +
+    cockpit.headsetCap +
+    COCKPIT_CONSTANTS.headsetBearingDiameter / 2
+  ) * SCALE
+
+  const spacerUp = {
+    x: headTubeTop.x - spacerStackHeight * Math.cos(headTubeAngleRad),
+    y: headTubeTop.y - spacerStackHeight * Math.sin(headTubeAngleRad),
+  }
+
+  // Vorbau-Ende (Stem Front)
+  const stemAngleTotal = headTubeAngleRad - toRadians(cockpit.stemAngle)
+  const stemLengthScaled = cockpit.stemLength * SCALE
+  const stemFront = {
+    x: spacerUp.x + Math.sin(stemAngleTotal) * stemLengthScaled,
+    y: spacerUp.y - Math.cos(stemAngleTotal) * stemLengthScaled,
+  }
+
+  // Lenkermitte (Handlebar Center)
+  const handlebarCenter = {
+    x: stemFront.x + cockpit.handlebarReach * SCALE,
+    y: stemFront.y,
+  }
+
+  return { spacerUp, stemFront, handlebarCenter }
+}
+
 /**
  * Erstellt einen Halbkreis-Bogen für den Lenker-Drop.
  * Fügt die Bogen-Punkte dynamisch zu points hinzu und verbindet sie mit Segmenten.
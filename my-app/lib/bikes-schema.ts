@@ -18,12 +18,43 @@ export const bikeGeometrySchema = z.object({
   standoverHeight: z.number(),
 })
 
+/** Zod-Schema für das Cockpit-Setup (optionale Felder wie im Typ). */
+export const cockpitSetupSchema = z.object({
+  spacerHeight: z.number(),
+  headsetCap: z.number(),
+  stemLength: z.number(),
+  stemAngle: z.number(),
+  handlebarReach: z.number(),
+  handlebarDrop: z.number(),
+  crankLength: z.number(),
+  pedalAngle: z.number(),
+  handPosition: z.enum(['hoods', 'drops']),
+  seatPostLength: z.number(),
+  saddleSetback: z.number().optional(),
+  saddleLength: z.number().optional(),
+  sitboneOffset: z.number().optional(),
+  cleatOffset: z.number().optional(),
+})
+
 /** Zod-Schema für Fahrerdaten. */
 export const riderSetupSchema = z.object({
   riderHeight: z.number(),
   riderInseam: z.number(),
   torsoAngle: z.number(),
   shoeThickness: z.number(),
+  thighLength: z.number().positive().optional(),
+  shankLength: z.number().positive().optional(),
+  footLength: z.number().positive().optional(),
+  torsoLength: z.number().positive().optional(),
+  upperArmLength: z.number().positive().optional(),
+  forearmLength: z.number().positive().optional(),
+  shoulderHeight: z.number().positive().optional(),
+  proportionPreset: z
+    .enum(['standard', 'maleAverage', 'femaleAverage', 'longLegs', 'shortLegs', 'longArms'])
+    .optional(),
+  anklingProfile: z.enum(['standard', 'flat', 'heelDrop', 'toeDown', 'custom']).optional(),
+  anklingKeyframes: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional(),
+  targetElbowAngle: z.number().min(90).max(180).optional(),
 })
 
 /**
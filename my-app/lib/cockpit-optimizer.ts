@@ -0,0 +1,266 @@
+import type { BikeData, CockpitSetup } from '@/types/bike'
+import { calculateBikeGeometry } from '@/lib/bike-geometry'
+import { COCKPIT_LIMITS, DEFAULT_COCKPIT, getCockpitSearchBounds } from '@/lib/defaults'
+import { COCKPIT_FIELD_INFO, type NumericCockpitField } from '@/lib/setup-fields'
+import { evaluateFit, type FitFinding } from '@/lib/fit-evaluation'
+import type { FitMetricId } from '@/lib/metric-ratings'
+import { RACE_THRESHOLDS, type FitThresholds } from '@/lib/threshold-profiles'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Optimierbare Felder: alle numerischen Cockpit-Werte außer der Kurbelstellung. */
+export type OptimizerField = Exclude<NumericCockpitField, 'pedalAngle'>
+
+export const OPTIMIZER_FIELDS: readonly OptimizerField[] = COCKPIT_FIELD_INFO
+  .map((info) => info.key)
+  .filter((key): key is OptimizerField => key !== 'pedalAngle')
+
+export type MetricWeights = Record<FitMetricId, number>
+
+/** Standardgewichte: Knie und Hüfte vor Oberkörper und Überhöhung. */
+export const DEFAULT_METRIC_WEIGHTS: MetricWeights = {
+  kneeAngleAt90: 3,
+  kneeAngleAt270: 2,
+  kneeTopedalXAt0: 1,
+  shoulderAngle: 1.5,
+  elbowAngle: 1,
+  ankleAngleAt270: 2,
+  hipAngleMin: 2,
+  saddleHandlebarDrop: 1,
+}
+
+export type OptimizerOptions = {
+  thresholds?: FitThresholds
+  weights?: Partial<MetricWeights>
+  locked?: readonly OptimizerField[] // Felder, die unverändert bleiben
+  limit?: number // Anzahl der zurückgegebenen Setups
+}
+
+export type OptimizedSetup = {
+  cockpit: CockpitSetup
+  score: number // gewichteter Score 0–100
+  metricScores: Partial<Record<FitMetricId, number>> // je Kennzahl 0–1
+  findings: FitFinding[]
+  changes: Array<{ field: OptimizerField; label: string; unit: string; before: number; after: number }>
+  paretoOptimal: boolean // von keinem anderen gefundenen Setup in allen Kennzahlen übertroffen
+}
+
+/**
+ * Suchfenster je Feld um den aktuellen Wert (mm bzw. °). Felder ohne Eintrag
+ * nutzen den vollen Bereich aus `COCKPIT_LIMITS`; bei Spacer, Vorbau und
+ * Sattelstütze sind die Limits bewusst großzügig und daher eingeschränkt.
+ */
+const SEARCH_SPAN: Partial<Record<OptimizerField, number>> = {
+  spacerHeight: 40,
+  stemLength: 50,
+  seatPostLength: 80,
+  saddleSetback: 40,
+}
+
+/** Toleranz, bei der eine Kennzahl außerhalb des Optimalbereichs noch 50 % zählt. */
+const SCORE_TOLERANCE = { '°': 5, mm: 15 } as const
+
+/** Startpunkte der lokalen Suche (aktuelles Setup + zufällige Punkte). */
+const RANDOM_STARTS = 7
+
+/** Grobe bis feine Schrittweiten als Vielfache des Feld-Rasters. */
+const STEP_MULTIPLIERS = [8, 4, 2, 1]
+
+/** Mindestabstand (Summe der Rasterschritte), damit zwei Setups als verschieden gelten. */
+const MIN_DISTINCT_STEPS = 6
+
+/**
+ * Abzug je Rasterschritt Abweichung vom aktuellen Setup (Score-Punkte).
+ * Bei gleichem Score gewinnt so das Setup mit den wenigsten Änderungen.
+ */
+const CHANGE_PENALTY = 0.02
+
+const DEFAULT_LIMIT = 3
+
+const RANDOM_SEED = 20240601
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER
+// ════════════════════════════════════════════════════════════════════════════
+
+type Candidate = {
+  values: Record<OptimizerField, number>
+  score: number
+  objective: number // Score abzüglich Änderungsaufwand, Grundlage der Suche
+  metricScores: Partial<Record<FitMetricId, number>>
+  findings: FitFinding[]
+}
+
+/** Deterministischer Zufallsgenerator (mulberry32), damit Ergebnisse reproduzierbar bleiben. */
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function fieldStep(field: OptimizerField): number {
+  return COCKPIT_LIMITS[field].step ?? 1
+}
+
+function currentValue(cockpit: CockpitSetup, field: OptimizerField): number {
+  return cockpit[field] ?? DEFAULT_COCKPIT[field] ?? 0
+}
+
+function searchBounds(field: OptimizerField, current: number): { min: number; max: number } {
+  const bounds = getCockpitSearchBounds(field, current)
+  const span = SEARCH_SPAN[field]
+  if (span === undefined) return bounds
+  return { min: Math.max(bounds.min, current - span), max: Math.min(bounds.max, current + span) }
+}
+
+function snap(field: OptimizerField, value: number, bounds: { min: number; max: number }): number {
+  const step = fieldStep(field)
+  const snapped = Math.round(value / step) * step
+  return Math.max(bounds.min, Math.min(bounds.max, snapped))
+}
+
+/** Bewertung einer Kennzahl: 1 im Optimalbereich, danach weich abfallend; rot halbiert. */
+function metricScore(finding: FitFinding): number {
+  if (finding.distance === 0 && finding.rating === 'green') return 1
+  const ratio = finding.distance / SCORE_TOLERANCE[finding.unit]
+  const score = 1 / (1 + ratio * ratio)
+  return finding.rating === 'red' ? score / 2 : score
+}
+
+function dominates(a: Candidate, b: Candidate): boolean {
+  let strictlyBetter = false
+  for (const id of Object.keys(a.metricScores) as FitMetricId[]) {
+    const scoreA = a.metricScores[id] ?? 0
+    const scoreB = b.metricScores[id] ?? 0
+    if (scoreA < scoreB - 1e-9) return false
+    if (scoreA > scoreB + 1e-9) strictlyBetter = true
+  }
+  return strictlyBetter
+}
+
+function stepDistance(
+  a: Record<OptimizerField, number>,
+  b: Record<OptimizerField, number>,
+  fields: readonly OptimizerField[]
+): number {
+  return fields.reduce((sum, field) => sum + Math.abs(a[field] - b[field]) / fieldStep(field), 0)
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// OPTIMIERER
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sucht Cockpit-Setups mit dem besten gewichteten Score über alle
+ * biomechanischen Kennzahlen gegen das aktive Schwellen-Profil.
+ *
+ * Lokale Koordinatensuche (grob → fein) vom aktuellen Setup und von
+ * zufälligen Startpunkten im Suchfenster; gesperrte Felder bleiben fest.
+ * Aus allen besuchten Setups werden die Pareto-optimalen (in keiner
+ * Kennzahl schlechter als ein anderes) nach Score (abzüglich eines kleinen
+ * Aufschlags je Änderung) sortiert und nur
+ * ausreichend verschiedene übernommen; fehlen welche, wird mit den besten
+ * übrigen Setups aufgefüllt.
+ */
+export function optimizeCockpit(
+  bike: BikeData,
+  { thresholds = RACE_THRESHOLDS, weights = {}, locked = [], limit = DEFAULT_LIMIT }: OptimizerOptions = {}
+): OptimizedSetup[] {
+  const metricWeights: MetricWeights = { ...DEFAULT_METRIC_WEIGHTS, ...weights }
+  const free = OPTIMIZER_FIELDS.filter((field) => !locked.includes(field))
+  const start = Object.fromEntries(
+    OPTIMIZER_FIELDS.map((field) => [field, currentValue(bike.cockpit, field)])
+  ) as Record<OptimizerField, number>
+  const bounds = Object.fromEntries(
+    OPTIMIZER_FIELDS.map((field) => [field, searchBounds(field, start[field])])
+  ) as Record<OptimizerField, { min: number; max: number }>
+
+  const visited = new Map<string, Candidate>()
+  const evaluate = (values: Record<OptimizerField, number>): Candidate => {
+    const key = free.map((field) => values[field]).join('|')
+    const cached = visited.get(key)
+    if (cached) return cached
+    const findings = evaluateFit(calculateBikeGeometry({ ...bike, cockpit: { ...bike.cockpit, ...values } }), thresholds)
+    const metricScores: Candidate['metricScores'] = {}
+    let weighted = 0
+    let totalWeight = 0
+    for (const finding of findings) {
+      const value = metricScore(finding)
+      metricScores[finding.id] = value
+      weighted += value * metricWeights[finding.id]
+      totalWeight += metricWeights[finding.id]
+    }
+    const score = totalWeight > 0 ? (weighted / totalWeight) * 100 : 0
+    const objective = score - CHANGE_PENALTY * stepDistance(values, start, free)
+    const candidate = { values, score, objective, metricScores, findings }
+    visited.set(key, candidate)
+    return candidate
+  }
+
+  // Startpunkte: aktuelles Setup plus zufällige Punkte im Suchfenster
+  const random = createRandom(RANDOM_SEED)
+  const starts = [start]
+  if (free.length > 0) {
+    for (let i = 0; i < RANDOM_STARTS; i++) {
+      const values = { ...start }
+      for (const field of free) {
+        const { min, max } = bounds[field]
+        values[field] = snap(field, min + random() * (max - min), bounds[field])
+      }
+      starts.push(values)
+    }
+  }
+
+  for (const values of starts) {
+    let best = evaluate(values)
+    for (const multiplier of STEP_MULTIPLIERS) {
+      let improved = true
+      while (improved) {
+        improved = false
+        for (const field of free) {
+          for (const direction of [-1, 1]) {
+            const next = { ...best.values }
+            next[field] = snap(field, best.values[field] + direction * multiplier * fieldStep(field), bounds[field])
+            if (next[field] === best.values[field]) continue
+            const candidate = evaluate(next)
+            if (candidate.objective > best.objective + 1e-9) {
+              best = candidate
+              improved = true
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Pareto-Front, nach Score sortiert; nur ausreichend verschiedene Setups
+  const candidates = [...visited.values()].sort((a, b) => b.objective - a.objective)
+  const front = new Set(candidates.filter((a) => !candidates.some((b) => b !== a && dominates(b, a))))
+  const ordered = [...candidates.filter((c) => front.has(c)), ...candidates.filter((c) => !front.has(c))]
+  const selected: Candidate[] = []
+  for (const candidate of ordered) {
+    if (selected.length >= limit) break
+    if (selected.every((other) => stepDistance(candidate.values, other.values, free) >= MIN_DISTINCT_STEPS)) {
+      selected.push(candidate)
+    }
+  }
+
+  return selected.map((candidate) => ({
+    cockpit: { ...bike.cockpit, ...candidate.values },
+    score: candidate.score,
+    metricScores: candidate.metricScores,
+    findings: candidate.findings,
+    changes: free.flatMap((field) => {
+      if (candidate.values[field] === start[field]) return []
+      const info = COCKPIT_FIELD_INFO.find((entry) => entry.key === field)
+      return [{ field, label: info?.label ?? field, unit: info?.unit ?? '', before: start[field], after: candidate.values[field] }]
+    }),
+    paretoOptimal: front.has(candidate),
+  }))
+}
@@ -0,0 +1,132 @@
+import type { BikeData } from '@/types/bike'
+import { calculateBikeGeometry, calculateCockpitPoints, SCALE, type Point2D } from '@/lib/bike-geometry'
+import { COCKPIT_CONSTANTS, COCKPIT_LIMITS } from '@/lib/defaults'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Bezugspunkt der Lenkerposition: Tretlager oder Sattel-Mittelpunkt. */
+export type HandlebarReference = 'bb' | 'saddle'
+
+/** Position in mm relativ zum Bezugspunkt (x nach vorn, y nach oben). */
+export type RelativePosition = { x: number; y: number }
+
+export type HandlebarTarget = RelativePosition & { reference: HandlebarReference }
+
+export type CockpitSolution = {
+  stemLength: number
+  stemAngle: number
+  spacerHeight: number
+  handlebar: RelativePosition // erreichte Lenkermitte relativ zum Bezugspunkt
+  error: number // Abstand zum Ziel (mm)
+}
+
+export type CockpitSolverOptions = {
+  limit?: number // Anzahl der zurückgegebenen Kombinationen
+}
+
+export const HANDLEBAR_REFERENCE_LABELS: Record<HandlebarReference, string> = {
+  bb: 'Tretlager',
+  saddle: 'Sattel',
+}
+
+const DEFAULT_SOLUTION_LIMIT = 5
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Werte von min bis max im Raster `step` (inklusive Grenzen). */
+function range({ min, max, step = 1 }: { min: number; max: number; step?: number }): number[] {
+  const values: number[] = []
+  for (let value = min; value <= max + 1e-9; value += step) values.push(value)
+  return values
+}
+
+function toRelative(point: Point2D, origin: Point2D): RelativePosition {
+  return { x: (point.x - origin.x) / SCALE, y: -(point.y - origin.y) / SCALE }
+}
+
+function referencePoint(bike: BikeData, reference: HandlebarReference): Point2D {
+  const { points } = calculateBikeGeometry(bike)
+  return reference === 'saddle' ? points.saddleTop : points.bb
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SOLVER
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Aktuelle Lenkermitte relativ zum Bezugspunkt (z.B. als Startwert für das Ziel). */
+export function getHandlebarPosition(bike: BikeData, reference: HandlebarReference): RelativePosition {
+  const { points } = calculateBikeGeometry(bike)
+  return toRelative(points.handlebarCenter, reference === 'saddle' ? points.saddleTop : points.bb)
+}
+
+/**
+ * Sucht Vorbau-Länge, Vorbau-Winkel und Spacer-Höhe für eine Ziel-Lenkerposition.
+ *
+ * Für jede Kombination aus Vorbaulänge und -winkel im Raster von
+ * `COCKPIT_LIMITS` wird die passende Spacer-Höhe entlang der Lenkachse
+ * bestimmt, auf das Spacer-Raster gerundet und mit `calculateCockpitPoints`
+ * nachgerechnet. Top Cap und Lenker-Reach bleiben wie im aktuellen Setup.
+ * Ergebnis: die Kombinationen mit dem kleinsten Abstand zum Ziel.
+ */
+export function solveCockpitForHandlebar(
+  bike: BikeData,
+  target: HandlebarTarget,
+  { limit = DEFAULT_SOLUTION_LIMIT }: CockpitSolverOptions = {}
+): CockpitSolution[] {
+  const origin = referencePoint(bike, target.reference)
+  const headTubeTop = { x: bike.geometry.reach * SCALE, y: -bike.geometry.stack * SCALE }
+  const headTubeAngleRad = (bike.geometry.headTubeAngle * Math.PI) / 180
+  const { headsetCap, handlebarReach } = bike.cockpit
+  const spacerLimits = COCKPIT_LIMITS.spacerHeight
+  const spacerStep = spacerLimits.step ?? 1
+
+  // Ziel in SVG-Koordinaten
+  const targetPoint = { x: origin.x + target.x * SCALE, y: origin.y - target.y * SCALE }
+  // Einheitsvektor entlang der Lenkachse nach oben
+  const axis = { x: -Math.cos(headTubeAngleRad), y: -Math.sin(headTubeAngleRad) }
+
+  const solutions: CockpitSolution[] = []
+  for (const stemAngle of range(COCKPIT_LIMITS.stemAngle)) {
+    for (const stemLength of range(COCKPIT_LIMITS.stemLength)) {
+      // Cockpit ohne Spacer-Stack: verbleibender Vektor muss entlang der Lenkachse liegen
+      const base = calculateCockpitPoints(headTubeTop, bike.geometry.headTubeAngle, {
+        spacerHeight: 0,
+        headsetCap: -COCKPIT_CONSTANTS.headsetBearingDiameter / 2,
+        stemLength,
+        stemAngle,
+        handlebarReach,
+      })
+      const along = ((targetPoint.x - base.handlebarCenter.x) * axis.x + (targetPoint.y - base.handlebarCenter.y) * axis.y) / SCALE
+      const idealSpacer = along - headsetCap - COCKPIT_CONSTANTS.headsetBearingDiameter / 2
+      const spacerHeight = Math.max(
+        spacerLimits.min,
+        Math.min(spacerLimits.max, Math.round(idealSpacer / spacerStep) * spacerStep)
+      )
+
+      const { handlebarCenter } = calculateCockpitPoints(headTubeTop, bike.geometry.headTubeAngle, {
+        spacerHeight,
+        headsetCap,
+        stemLength,
+        stemAngle,
+        handlebarReach,
+      })
+      const handlebar = toRelative(handlebarCenter, origin)
+      solutions.push({
+        stemLength,
+        stemAngle,
+        spacerHeight,
+        handlebar,
+        error: Math.hypot(handlebar.x - target.x, handlebar.y - target.y),
+      })
+    }
+  }
+
+  // Bei gleichem Fehler: weniger Spacer und kürzerer Vorbau zuerst
+  return solutions
+    .sort((a, b) => a.error - b.error || a.spacerHeight - b.spacerHeight || a.stemLength - b.stemLength)
+    .slice(0, limit)
+}
@@ -0,0 +1,131 @@
+import { z } from 'zod'
+import type { AvailableBikesMap, BikeGeometry } from '@/types/bike'
+import { availableBikesSchema } from '@/lib/bikes-schema'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** localStorage-Schlüssel für selbst angelegte Rahmen. */
+export const CUSTOM_BIKES_STORAGE_KEY = 'velometric.customBikes'
+
+/** Aktuelle Schema-Version der gespeicherten Rahmen. */
+export const CUSTOM_BIKES_VERSION = 1
+
+/** Eintrag einer eigenen Geometrie (flach, z.B. für Listen). */
+export type CustomBikeEntry = {
+  brand: string
+  model: string
+  size: string
+  geometry: BikeGeometry
+}
+
+/** Container im localStorage: gleiche Struktur wie `data/bikes.json`. */
+const storedCustomBikesSchema = z.object({
+  version: z.literal(CUSTOM_BIKES_VERSION),
+  bikes: availableBikesSchema,
+})
+
+// ════════════════════════════════════════════════════════════════════════════
+// STORAGE
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Liest die eigenen Rahmen aus dem localStorage (leer bei Fehlern). */
+export function loadCustomBikes(): AvailableBikesMap {
+  if (typeof window === 'undefined') return {}
+  try {
+    const raw = window.localStorage.getItem(CUSTOM_BIKES_STORAGE_KEY)
+    if (!raw) return {}
+    const result = storedCustomBikesSchema.safeParse(JSON.parse(raw))
+    if (result.success) return result.data.bikes
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('[CustomBikes] Ungültige Daten im localStorage – ignoriert.', result.error.flatten())
+    }
+  } catch {
+    // Defektes JSON: wie "keine eigenen Bikes" behandeln
+  }
+  return {}
+}
+
+export function saveCustomBikes(bikes: AvailableBikesMap): void {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(
+      CUSTOM_BIKES_STORAGE_KEY,
+      JSON.stringify({ version: CUSTOM_BIKES_VERSION, bikes })
+    )
+  } catch {
+    // Speicher voll oder deaktiviert: Änderungen gelten nur für diese Sitzung
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// OPERATIONEN (immutable)
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Fügt eine Geometrie hinzu bzw. überschreibt eine bestehende gleichen Namens. */
+export function addCustomBike(
+  bikes: AvailableBikesMap,
+  { brand, model, size, geometry }: CustomBikeEntry
+): AvailableBikesMap {
+  return {
+    ...bikes,
+    [brand]: {
+      ...bikes[brand],
+      [model]: {
+        ...bikes[brand]?.[model],
+        [size]: geometry,
+      },
+    },
+  }
+}
+
+/** Entfernt eine Größe; leere Modelle und Marken werden mit entfernt. */
+export function removeCustomBike(
+  bikes: AvailableBikesMap,
+  brand: string,
+  model: string,
+  size: string
+): AvailableBikesMap {
+  const sizes = { ...bikes[brand]?.[model] }
+  delete sizes[size]
+
+  const models = { ...bikes[brand] }
+  if (Object.keys(sizes).length > 0) models[model] = sizes
+  else delete models[model]
+
+  const next = { ...bikes }
+  if (Object.keys(models).length > 0) next[brand] = models
+  else delete next[brand]
+  return next
+}
+
+/** Flache Liste aller Einträge (Marke → Modell → Größe). */
+export function listCustomBikes(bikes: AvailableBikesMap): CustomBikeEntry[] {
+  return Object.entries(bikes).flatMap(([brand, models]) =>
+    Object.entries(models).flatMap(([model, sizes]) =>
+      Object.entries(sizes).map(([size, geometry]) => ({ brand, model, size, geometry }))
+    )
+  )
+}
+
+/**
+ * Führt mitgelieferte und eigene Rahmen zusammen. Eigene Größen werden in
+ * bestehende Marken/Modelle einsortiert und haben bei Namensgleichheit Vorrang.
+ */
+export function mergeAvailableBikes(
+  bundled: AvailableBikesMap,
+  custom: AvailableBikesMap
+): AvailableBikesMap {
+  return listCustomBikes(custom).reduce(addCustomBike, bundled)
+}
+
+/** Prüft, ob eine Marke/Modell/Größe aus den eigenen Rahmen stammt. */
+export function isCustomBike(
+  custom: AvailableBikesMap,
+  brand: string,
+  model: string,
+  size: string
+): boolean {
+  return Boolean(custom[brand]?.[model]?.[size])
+}
@@ -21,6 +21,7 @@ export const COCKPIT_LIMITS: Record<Exclude<keyof CockpitSetup, 'handPosition'>
   saddleLength:   { min: 200, max: 300, step: 5 },  // Sattellänge (mm)
   saddleSetback:  { min: -50, max: 50,  step: 1 },  // Sattel-Setback (mm)
   sitboneOffset: { min: -100, max: 100, step: 5 }, // Sitzbeinhöhe-Offset (mm)
+  cleatOffset:    { min: -10, max: 30,  step: 1 },  // Cleat hinter Fußballen (mm)
 }
 
 /** Default-Werte für das Cockpit-Setup. */
@@ -38,6 +39,7 @@ export const DEFAULT_COCKPIT: CockpitSetup & { saddleLength?: number; saddleSetb
   saddleLength: 255,      // 255mm Sattellänge (Default)
   saddleSetback: 80,      // 80mm Sattel-Setback (Default)
   sitboneOffset: -20,     // Sitzbeinhöhe-Offset (Default)
+  cleatOffset: 0,         // Cleat unter dem Fußballen
 }
 
 /** Default-Werte für die Fahrerdaten. */
@@ -81,6 +83,19 @@ export function clampCockpitValue(
   return Math.max(min, Math.min(max, value))
 }
 
+/**
+ * Suchbereich der Solver für ein Cockpit-Feld: die Grenzen aus
+ * `COCKPIT_LIMITS`, erweitert um den aktuellen Wert, falls dieser (z.B. der
+ * Default-Setback) außerhalb liegt – er wird dann nicht weiter hinausgeschoben.
+ */
+export function getCockpitSearchBounds(
+  field: Exclude<keyof CockpitSetup, 'handPosition'> | 'saddleLength' | 'saddleSetback',
+  current: number
+): { min: number; max: number } {
+  const { min, max } = COCKPIT_LIMITS[field]
+  return { min: Math.min(min, current), max: Math.max(max, current) }
+}
+
 /**
  * Begrenzt ein ganzes Cockpit-Setup auf die erlaubten Grenzwerte.
  */
@@ -99,5 +114,6 @@ export function clampCockpitSetup(cockpit: CockpitSetup & { saddleLength?: numbe
     saddleLength:   clampCockpitValue('saddleLength', cockpit.saddleLength ?? 255),
     saddleSetback:  clampCockpitValue('saddleSetback', cockpit.saddleSetback ?? 80),
     sitboneOffset:  clampCockpitValue('sitboneOffset', cockpit.sitboneOffset ?? -20),
+    cleatOffset:    clampCockpitValue('cleatOffset', cockpit.cleatOffset ?? 0),
   }
 }
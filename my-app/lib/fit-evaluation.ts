@@ -0,0 +1,322 @@
+import type { BikeGeometryResult } from '@/lib/bike-geometry'
+import type { FitMetric, FitMetricId, MetricRating } from '@/lib/metric-ratings'
+import { ANKLE_MIN, KNEE_90_IMPLAUSIBLE } from '@/lib/warning-thresholds'
+import { RACE_THRESHOLDS, type FitThresholds } from '@/lib/threshold-profiles'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Lage eines Werts relativ zu den Schwellen: 'tooLow'/'tooHigh' = rot,
+ * 'low'/'high' = gelb, 'optimal' = grün.
+ */
+export type FitBand = 'tooLow' | 'low' | 'optimal' | 'high' | 'tooHigh'
+
+/** Empfohlene Richtung für den Messwert plus konkreter Hinweis am Rad. */
+export type FitAdjustment = {
+  direction: 'increase' | 'decrease'
+  hint: string
+}
+
+/**
+ * Bewertete Messung. `rating` ist der Schweregrad (Ampel), `band` sagt, auf
+ * welcher Seite des Optimalbereichs der Wert liegt.
+ */
+export type FitFinding = FitMetric & {
+  band: FitBand
+  status: string // Kurzform für die Ampelzeile, leer wenn optimal
+  reason: string
+  adjustment: FitAdjustment | null // null wenn optimal
+  implausible: boolean // Geometrie so nicht fahrbar (Bein zu kurz, Sprunggelenk)
+  distance: number // Abstand zum Optimalbereich in `unit`, 0 wenn optimal
+  requiresRider: boolean // nur mit Fahrermodell aussagekräftig
+}
+
+const BAND_RATINGS: Record<FitBand, MetricRating> = {
+  tooLow: 'red',
+  low: 'yellow',
+  optimal: 'green',
+  high: 'yellow',
+  tooHigh: 'red',
+}
+
+const BAND_STATUS: Record<FitBand, string> = {
+  tooLow: 'Zu klein',
+  low: 'Grenzwertig',
+  optimal: '',
+  high: 'Grenzwertig',
+  tooHigh: 'Zu groß',
+}
+
+type FindingText = { reason: string; status?: string; adjustment?: string }
+
+type MetricDefinition = {
+  id: FitMetricId
+  label: string
+  unit: FitMetric['unit']
+  requiresRider: boolean
+  range: (t: FitThresholds) => string
+  optimal: (t: FitThresholds) => { min?: number; max?: number }
+  band: (value: number, t: FitThresholds) => FitBand
+  /** Texte je Band; 'low'/'high' fallen auf 'tooLow'/'tooHigh' zurück und umgekehrt. */
+  texts: { low?: FindingText; tooLow?: FindingText; high?: FindingText; tooHigh?: FindingText }
+  implausible?: (value: number) => FindingText | null
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// DEFINITIONEN
+// ════════════════════════════════════════════════════════════════════════════
+
+const METRIC_DEFINITIONS: MetricDefinition[] = [
+  {
+    id: 'kneeAngleAt90',
+    label: 'Kniewinkel unten (90°)',
+    unit: '°',
+    requiresRider: true,
+    range: (t) => `${t.knee90MinWarning}–${t.knee90MaxWarning}°`,
+    optimal: (t) => ({ min: t.knee90MinWarning, max: t.knee90MaxWarning }),
+    band: (v, t) =>
+      v <= t.knee90Min ? 'tooLow'
+        : v >= t.knee90Max ? 'tooHigh'
+          : v < t.knee90MinWarning ? 'low'
+            : v > t.knee90MaxWarning ? 'high' : 'optimal',
+    texts: {
+      tooLow: {
+        reason: 'Kniewinkel bei 90° ist zu klein. Das Knie bleibt stark gebeugt, Risiko für Überlastung.',
+        adjustment: 'Sattel höher',
+      },
+      low: {
+        reason: 'Kniewinkel bei 90° ist grenzwertig klein. Leichte Anpassungen könnten sinnvoll sein.',
+        adjustment: 'Sattel etwas höher',
+      },
+      high: {
+        reason: 'Kniewinkel bei 90° ist grenzwertig groß. Leichte Anpassungen könnten sinnvoll sein.',
+        adjustment: 'Sattel etwas tiefer',
+      },
+      tooHigh: {
+        reason: 'Kniewinkel bei 90° ist zu groß. Risiko für Überstreckung.',
+        adjustment: 'Sattel tiefer',
+      },
+    },
+    implausible: (v) =>
+      v >= KNEE_90_IMPLAUSIBLE
+        ? {
+            status: 'Sattel zu hoch / Bein zu kurz',
+            reason: 'Das Bein ist zu kurz (kürzer als für Körpergrösse angegeben). Dadurch ist diese Position nicht realistisch umsetzbar. Der Sattel sollte abgesenkt oder die Beinlänge überprüft werden.',
+            adjustment: 'Sattel tiefer oder Beinlänge prüfen',
+          }
+        : null,
+  },
+  {
+    id: 'kneeAngleAt270',
+    label: 'Kniewinkel oben (270°)',
+    unit: '°',
+    requiresRider: true,
+    range: (t) => `> ${t.knee270MinWarning}°`,
+    optimal: (t) => ({ min: t.knee270MinWarning }),
+    band: (v, t) => (v <= t.knee270Min ? 'tooLow' : v < t.knee270MinWarning ? 'low' : 'optimal'),
+    texts: {
+      tooLow: {
+        reason: 'Kniewinkel oben ist zu klein. Das Knie wird am oberen Totpunkt stark gebeugt.',
+        adjustment: 'Sattel höher oder kürzere Kurbel',
+      },
+      low: {
+        reason: 'Kniewinkel oben ist grenzwertig. Leichte Anpassungen könnten sinnvoll sein.',
+        adjustment: 'Sattel etwas höher oder kürzere Kurbel',
+      },
+    },
+  },
+  {
+    id: 'kneeTopedalXAt0',
+    label: 'Knie über Pedalachse (0°)',
+    unit: 'mm',
+    requiresRider: true,
+    range: (t) => `≥ ${t.kneePedalXMinWarning} mm`,
+    optimal: (t) => ({ min: t.kneePedalXMinWarning }),
+    band: (v, t) => (v < t.kneePedalXMinWarning ? 'low' : 'optimal'),
+    texts: {
+      low: {
+        status: 'Knie lotet vor Pedalachse',
+        reason: 'Knie zu Pedal Abstand ist grenzwertig gering. Risiko für ungünstige Kraftübertragung.',
+        adjustment: 'Sattel weiter nach vorn (weniger Setback)',
+      },
+    },
+  },
+  {
+    id: 'shoulderAngle',
+    label: 'Schulterwinkel',
+    unit: '°',
+    requiresRider: true,
+    range: (t) => `${t.shoulderMinWarning}–${t.shoulderMaxWarning}°`,
+    optimal: (t) => ({ min: t.shoulderMinWarning, max: t.shoulderMaxWarning }),
+    band: (v, t) =>
+      v < t.shoulderMin ? 'tooLow'
+        : v > t.shoulderMax ? 'tooHigh'
+          : v < t.shoulderMinWarning ? 'low'
+            : v > t.shoulderMaxWarning ? 'high' : 'optimal',
+    texts: {
+      low: {
+        reason: 'Oberkörper und Oberarm stehen eng zueinander. Die Position wirkt gedrungen.',
+        adjustment: 'Längerer Vorbau oder Lenker tiefer',
+      },
+      high: {
+        reason: 'Der Fahrer streckt sich weit nach vorn. Mehr Last auf Schultern und Nacken.',
+        adjustment: 'Kürzerer Vorbau oder Lenker höher',
+      },
+    },
+  },
+  {
+    id: 'elbowAngle',
+    label: 'Ellbogenwinkel',
+    unit: '°',
+    requiresRider: true,
+    range: (t) => `${t.elbowMinWarning}–${t.elbowMaxWarning}°`,
+    optimal: (t) => ({ min: t.elbowMinWarning, max: t.elbowMaxWarning }),
+    band: (v, t) =>
+      v > t.elbowCritical ? 'tooHigh'
+        : v >= t.elbowMaxWarning ? 'high'
+          : v < t.elbowMinWarning ? 'low' : 'optimal',
+    texts: {
+      low: {
+        reason: 'Arme stark gebeugt. Viel Haltearbeit in Trizeps und Schultern.',
+        adjustment: 'Längerer Vorbau oder Lenker tiefer',
+      },
+      high: {
+        reason: 'Arme fast gestreckt. Kaum Stoßdämpfung über die Ellbogen.',
+        adjustment: 'Kürzerer Vorbau oder Lenker höher',
+      },
+    },
+  },
+  {
+    id: 'ankleAngleAt270',
+    label: 'Sprunggelenkwinkel oben (270°)',
+    unit: '°',
+    requiresRider: true,
+    range: () => `≥ ${ANKLE_MIN}°`,
+    optimal: () => ({ min: ANKLE_MIN }),
+    band: (v) => (v < ANKLE_MIN ? 'tooLow' : 'optimal'),
+    texts: {},
+    implausible: (v) =>
+      v < ANKLE_MIN
+        ? {
+            status: 'unrealistische Radgeometrie',
+            reason: 'Sprunggelenkwinkel bei 270° ist zu klein. Die Geometrie ist biomechanisch nicht realistisch umsetzbar.',
+            adjustment: 'Sattel höher oder kürzere Kurbel',
+          }
+        : null,
+  },
+  {
+    id: 'hipAngleMin',
+    label: 'Hüftwinkel geschlossen',
+    unit: '°',
+    requiresRider: true,
+    range: (t) => `≥ ${t.hipClosedMinWarning}°`,
+    optimal: (t) => ({ min: t.hipClosedMinWarning }),
+    band: (v, t) => (v < t.hipClosedMin ? 'tooLow' : v < t.hipClosedMinWarning ? 'low' : 'optimal'),
+    texts: {
+      tooLow: {
+        reason: 'Hüfte schließt sich am oberen Totpunkt zu stark. Leistungsverlust und Druck im Sitzbereich möglich – Lenker höher/näher oder Sattel weiter vorn.',
+        adjustment: 'Lenker höher/näher oder Sattel weiter vorn',
+      },
+      low: {
+        reason: 'Hüfte ist am oberen Totpunkt stark geschlossen. Aggressive Position, Beweglichkeit des Fahrers beachten.',
+        adjustment: 'Lenker etwas höher oder kürzere Kurbel',
+      },
+    },
+  },
+  {
+    id: 'saddleHandlebarDrop',
+    label: 'Überhöhung Sattel–Lenker',
+    unit: 'mm',
+    requiresRider: false,
+    range: (t) => `< ${t.dropWarning} mm`,
+    optimal: (t) => ({ max: t.dropWarning }),
+    band: (v, t) => (v > t.dropCritical ? 'tooHigh' : v > t.dropWarning ? 'high' : 'optimal'),
+    texts: {
+      high: {
+        status: 'Sportliche Position',
+        reason: 'Erhöhte Überhöhung: Sportliche Sitzposition, Komfort leicht reduziert.',
+        adjustment: 'Mehr Spacer oder steilerer Vorbau',
+      },
+      tooHigh: {
+        status: 'Aggressive Position',
+        reason: 'Sehr große Überhöhung: Aggressive Sitzposition, Nackenprobleme und Komforteinbußen möglich.',
+        adjustment: 'Mehr Spacer oder steilerer Vorbau',
+      },
+    },
+  },
+]
+
+// ════════════════════════════════════════════════════════════════════════════
+// AUSWERTUNG
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Text für ein Band, mit Rückfall auf die Nachbarstufe derselben Seite. */
+function textFor(definition: MetricDefinition, band: Exclude<FitBand, 'optimal'>): FindingText | undefined {
+  const { texts } = definition
+  switch (band) {
+    case 'tooLow': return texts.tooLow ?? texts.low
+    case 'low': return texts.low ?? texts.tooLow
+    case 'high': return texts.high ?? texts.tooHigh
+    case 'tooHigh': return texts.tooHigh ?? texts.high
+  }
+}
+
+function evaluateMetric(definition: MetricDefinition, value: number, thresholds: FitThresholds): FitFinding {
+  const { id, label, unit, requiresRider } = definition
+  const { min = -Infinity, max = Infinity } = definition.optimal(thresholds)
+  const distance = Math.max(0, min - value, value - max)
+  const base = { id, label, unit, value, range: definition.range(thresholds), requiresRider, distance }
+  const implausible = definition.implausible?.(value) ?? null
+  const band = definition.band(value, thresholds)
+
+  if (band === 'optimal' && !implausible) {
+    return {
+      ...base,
+      band,
+      rating: 'green',
+      status: '',
+      reason: `${label} im optimalen Bereich.`,
+      adjustment: null,
+      implausible: false,
+    }
+  }
+
+  const text = implausible ?? (band !== 'optimal' ? textFor(definition, band) : undefined)
+  const direction = band === 'tooLow' || band === 'low' ? 'increase' : 'decrease'
+  return {
+    ...base,
+    band,
+    rating: implausible ? 'red' : BAND_RATINGS[band],
+    status: text?.status ?? BAND_STATUS[band],
+    reason: text?.reason ?? `${label} außerhalb des Optimalbereichs (${base.range}).`,
+    adjustment: text?.adjustment ? { direction, hint: text.adjustment } : null,
+    implausible: implausible !== null,
+  }
+}
+
+/**
+ * Bewertet alle vorhandenen Kennzahlen eines Berechnungsergebnisses gegen
+ * ein Schwellen-Profil (ohne Angabe: Race). Zentrale Quelle für die Ampeln
+ * in der Visualisierung, den Fit-Report und alle Empfehlungen.
+ */
+export function evaluateFit(result: BikeGeometryResult, thresholds: FitThresholds = RACE_THRESHOLDS): FitFinding[] {
+  return METRIC_DEFINITIONS.flatMap((definition) => {
+    const value = result[definition.id]
+    if (value === undefined || !Number.isFinite(value)) return []
+    return [evaluateMetric(definition, value, thresholds)]
+  })
+}
+
+/** Finding zu einer Kennzahl oder `undefined`, wenn nicht berechnet. */
+export function findFinding(findings: FitFinding[], id: FitMetricId): FitFinding | undefined {
+  return findings.find((finding) => finding.id === id)
+}
+
+/** Alle gelben und roten Findings, rote zuerst. */
+export function getOutOfRangeFindings(findings: FitFinding[]): FitFinding[] {
+  return findings
+    .filter((finding) => finding.rating !== 'green')
+    .sort((a, b) => (a.rating === b.rating ? 0 : a.rating === 'red' ? -1 : 1))
+}
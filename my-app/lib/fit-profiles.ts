@@ -0,0 +1,182 @@
+import { z } from 'zod'
+import type { BikeData, CockpitSetup, RiderSetup } from '@/types/bike'
+import { cockpitSetupSchema, riderSetupSchema } from '@/lib/bikes-schema'
+import { clampCockpitSetup } from '@/lib/defaults'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** localStorage-Schlüssel für die gespeicherten Fit-Profile. */
+export const FIT_PROFILES_STORAGE_KEY = 'velometric.fitProfiles'
+
+/** Aktuelle Schema-Version des gespeicherten Profil-Containers. */
+export const FIT_PROFILES_VERSION = 1
+
+/**
+ * Benanntes Fit-Profil: Referenz auf die Geometrie (Marke/Modell/Größe)
+ * plus vollständiges Cockpit- und Fahrer-Setup.
+ */
+export type FitProfile = {
+  id: string
+  name: string
+  updatedAt: number // Zeitstempel (ms)
+  brand: string
+  model: string
+  size: string
+  cockpit: CockpitSetup
+  rider: RiderSetup
+}
+
+/**
+ * Einzelnes Profil beim Einlesen. Das Cockpit wird locker geprüft, damit
+ * Profile aus älteren Versionen (ohne später ergänzte optionale Felder)
+ * gültig bleiben; fehlende Werte werden über `clampCockpitSetup` ergänzt.
+ */
+const storedProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  updatedAt: z.number().default(0),
+  brand: z.string(),
+  model: z.string(),
+  size: z.string(),
+  cockpit: cockpitSetupSchema.partial({ handPosition: true }),
+  rider: riderSetupSchema,
+})
+
+/** Container im localStorage: `{ version, profiles }`. */
+const storedContainerSchema = z.object({
+  version: z.number(),
+  profiles: z.array(z.unknown()),
+})
+
+type StoredContainer = z.infer<typeof storedContainerSchema>
+
+/**
+ * Migrationen je Ausgangsversion: `PROFILE_MIGRATIONS[n]` hebt einen
+ * Container von Version n auf n + 1. Bei einer inkompatiblen Änderung
+ * `FIT_PROFILES_VERSION` erhöhen und hier den Übergang ergänzen.
+ */
+const PROFILE_MIGRATIONS: Record<number, (container: StoredContainer) => StoredContainer> = {}
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+function createProfileId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/** Hebt einen gespeicherten Container schrittweise auf die aktuelle Version. */
+function migrateContainer(container: StoredContainer): StoredContainer | null {
+  let current = container
+  while (current.version < FIT_PROFILES_VERSION) {
+    const migrate = PROFILE_MIGRATIONS[current.version]
+    if (!migrate) return null
+    current = migrate(current)
+  }
+  // Neuere Versionen (z.B. aus einem späteren Release) nicht anfassen
+  return current.version === FIT_PROFILES_VERSION ? current : null
+}
+
+function parseProfile(raw: unknown): FitProfile | null {
+  const result = storedProfileSchema.safeParse(raw)
+  if (!result.success) return null
+  const { cockpit, ...rest } = result.data
+  return {
+    ...rest,
+    cockpit: clampCockpitSetup({ ...cockpit, handPosition: cockpit.handPosition ?? 'hoods' }),
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// STORAGE
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Liest alle Profile aus dem localStorage und migriert sie auf die aktuelle
+ * Version. Einzelne ungültige Profile werden verworfen, nicht der ganze Bestand.
+ */
+export function loadFitProfiles(): FitProfile[] {
+  if (typeof window === 'undefined') return []
+
+  let json: unknown
+  try {
+    const raw = window.localStorage.getItem(FIT_PROFILES_STORAGE_KEY)
+    if (!raw) return []
+    json = JSON.parse(raw)
+  } catch {
+    return []
+  }
+
+  const container = storedContainerSchema.safeParse(json)
+  if (!container.success) return []
+  const migrated = migrateContainer(container.data)
+  if (!migrated) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('[Profile] Unbekannte Profil-Version im localStorage:', container.data.version)
+    }
+    return []
+  }
+
+  return migrated.profiles
+    .map(parseProfile)
+    .filter((profile): profile is FitProfile => profile !== null)
+}
+
+/** Schreibt alle Profile (mit aktueller Version) in den localStorage. */
+export function saveFitProfiles(profiles: FitProfile[]): void {
+  if (typeof window === 'undefined') return
+  const container: StoredContainer = { version: FIT_PROFILES_VERSION, profiles }
+  try {
+    window.localStorage.setItem(FIT_PROFILES_STORAGE_KEY, JSON.stringify(container))
+  } catch {
+    // Speicher voll oder deaktiviert: Profile bleiben nur für diese Sitzung erhalten
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PROFIL-OPERATIONEN (immutable, geben die neue Liste zurück)
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Erstellt ein neues Profil als Snapshot des übergebenen Bikes. */
+export function createFitProfile(name: string, bike: BikeData): FitProfile {
+  return {
+    id: createProfileId(),
+    name: name.trim() || `${bike.brand} ${bike.model} (${bike.size})`,
+    updatedAt: Date.now(),
+    brand: bike.brand,
+    model: bike.model,
+    size: bike.size,
+    cockpit: { ...bike.cockpit },
+    rider: { ...bike.rider },
+  }
+}
+
+export function renameFitProfile(profiles: FitProfile[], id: string, name: string): FitProfile[] {
+  const trimmed = name.trim()
+  if (!trimmed) return profiles
+  return profiles.map((profile) =>
+    profile.id === id ? { ...profile, name: trimmed, updatedAt: Date.now() } : profile
+  )
+}
+
+/** Dupliziert ein Profil direkt hinter dem Original. */
+export function duplicateFitProfile(profiles: FitProfile[], id: string): FitProfile[] {
+  const index = profiles.findIndex((profile) => profile.id === id)
+  if (index < 0) return profiles
+  const original = profiles[index]
+  const copy: FitProfile = {
+    ...original,
+    id: createProfileId(),
+    name: `${original.name} (Kopie)`,
+    updatedAt: Date.now(),
+    cockpit: { ...original.cockpit },
+    rider: { ...original.rider },
+  }
+  return [...profiles.slice(0, index + 1), copy, ...profiles.slice(index + 1)]
+}
+
+export function deleteFitProfile(profiles: FitProfile[], id: string): FitProfile[] {
+  return profiles.filter((profile) => profile.id !== id)
+}
@@ -0,0 +1,272 @@
+import type { BikeData } from '@/types/bike'
+import { calculateBikeGeometry, SCALE, type BikeGeometryResult } from '@/lib/bike-geometry'
+import { DEFAULT_COCKPIT } from '@/lib/defaults'
+import { GEOMETRY_FIELDS } from '@/lib/geometry-fields'
+import { COCKPIT_FIELD_INFO, HAND_POSITION_LABELS, RIDER_FIELD_INFO } from '@/lib/setup-fields'
+import { RATING_COLORS, RATING_LABELS, type FitMetric } from '@/lib/metric-ratings'
+import { evaluateFit, getOutOfRangeFindings, type FitFinding } from '@/lib/fit-evaluation'
+import {
+  BUILT_IN_THRESHOLD_PROFILES,
+  DEFAULT_THRESHOLD_PROFILE_ID,
+  type ThresholdProfile,
+} from '@/lib/threshold-profiles'
+import { DEFAULT_RIDER_PROPORTION_PRESET, RIDER_PROPORTION_PRESETS } from '@/lib/rider-proportions'
+import { ANKLING_PROFILES, DEFAULT_ANKLING_PROFILE } from '@/lib/ankling-profiles'
+import { BIKE_COLORS, renderSideViewSvg } from '@/lib/side-view-svg'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export type FitReportOptions = {
+  createdAt?: Date
+  title?: string
+  thresholdProfile?: ThresholdProfile // Standard: Race
+}
+
+/** Kontaktpunkte für den A/B-Vergleich (relativ zum Tretlager, y nach oben). */
+const CONTACT_POINTS = [
+  { id: 'saddleTop', label: 'Sattel (Sitzpunkt)' },
+  { id: 'handlebarCenter', label: 'Lenkermitte' },
+  { id: 'hipJoint', label: 'Hüftgelenk' },
+] as const
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: 'Segoe UI', Arial, sans-serif; color: #1f2937; margin: 0; padding: 24px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; text-transform: uppercase; letter-spacing: 0.05em; }
+  .meta { color: #6b7280; margin-bottom: 16px; }
+  .bike { display: inline-flex; align-items: center; gap: 6px; margin-right: 16px; font-weight: 600; }
+  .swatch { width: 10px; height: 10px; border-radius: 50%; display: inline-block; }
+  .view { border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px; text-align: center; }
+  .view svg { width: 100%; height: auto; max-height: 360px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 4px 6px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { background: #f3f4f6; font-weight: 600; }
+  .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; }
+  .rating { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 4px; vertical-align: middle; }
+  .muted { color: #6b7280; }
+  .findings { margin: 4px 0 0; padding-left: 18px; }
+  .findings li { margin-bottom: 2px; }
+  .disclaimer { margin-top: 24px; color: #6b7280; font-size: 11px; }
+  .actions { margin-bottom: 16px; }
+  .actions button { font: inherit; padding: 6px 12px; border: 1px solid #d1d5db; border-radius: 6px; background: #fff; cursor: pointer; }
+  section { break-inside: avoid; }
+  @media print { body { padding: 0; } .actions { display: none; } }
+`
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER
+// ════════════════════════════════════════════════════════════════════════════
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatValue(value: number | undefined, unit: string, digits = 1): string {
+  return value === undefined || !Number.isFinite(value) ? '–' : `${value.toFixed(digits)} ${unit}`
+}
+
+function formatDelta(a: number | undefined, b: number | undefined, unit: string): string {
+  if (a === undefined || b === undefined) return '–'
+  const delta = b - a
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)} ${unit}`
+}
+
+function bikeName(bike: BikeData): string {
+  return escapeHtml(`${bike.brand} ${bike.model} (${bike.size})`)
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return (
+    `<table><thead><tr>${headers.map((h) => `<th>${h}</th>`).join('')}</tr></thead>` +
+    `<tbody>${rows.map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody></table>`
+  )
+}
+
+function ratedCell(metric: FitMetric | undefined): string {
+  if (!metric) return '–'
+  return (
+    `<span class="rating" style="background:${RATING_COLORS[metric.rating]}" title="${RATING_LABELS[metric.rating]}"></span>` +
+    `${formatValue(metric.value, metric.unit)} <span class="muted">${RATING_LABELS[metric.rating]}</span>`
+  )
+}
+
+/** Punkt relativ zum Tretlager in mm (x nach vorn, y nach oben). */
+function contactPoint(result: BikeGeometryResult, id: string) {
+  const p = result.points[id]
+  return p ? { x: p.x / SCALE, y: -p.y / SCALE } : undefined
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SEKTIONEN
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Gelbe/rote Findings als Liste mit Begründung und Anpassungsrichtung. */
+function findingsList(findings: FitFinding[], bikeLabel: string): string {
+  return getOutOfRangeFindings(findings)
+    .map((finding) =>
+      `<li><span class="rating" style="background:${RATING_COLORS[finding.rating]}"></span>` +
+      `<b>${escapeHtml(finding.label)}</b> (${bikeLabel}): ${escapeHtml(finding.reason)}` +
+      (finding.adjustment ? ` <span class="muted">→ ${escapeHtml(finding.adjustment.hint)}</span>` : '') +
+      '</li>'
+    )
+    .join('')
+}
+
+function metricsSection(metricsA: FitFinding[], metricsB: FitFinding[] | null): string {
+  const headers = ['Messung', 'Bike A', ...(metricsB ? ['Bike B', 'Δ B–A'] : []), 'Optimal']
+  const rows = metricsA.map((metricA) => {
+    const metricB = metricsB?.find((m) => m.id === metricA.id)
+    return [
+      metricA.label,
+      ratedCell(metricA),
+      ...(metricsB ? [ratedCell(metricB), formatDelta(metricA.value, metricB?.value, metricA.unit)] : []),
+      escapeHtml(metricA.range),
+    ]
+  })
+  const hints = findingsList(metricsA, 'A') + (metricsB ? findingsList(metricsB, 'B') : '')
+  return (
+    `<section><h2>Biomechanik</h2>${table(headers, rows)}` +
+    (hints ? `<p><b>Hinweise:</b></p><ul class="findings">${hints}</ul>` : '') +
+    '</section>'
+  )
+}
+
+function geometrySection(bikeA: BikeData, bikeB: BikeData | null): string {
+  const headers = ['Rahmen', 'Bike A', ...(bikeB ? ['Bike B', 'Δ B–A'] : [])]
+  const rows = GEOMETRY_FIELDS.map(({ key, label, unit }) => [
+    label,
+    formatValue(bikeA.geometry[key], unit, unit === '°' ? 1 : 0),
+    ...(bikeB
+      ? [formatValue(bikeB.geometry[key], unit, unit === '°' ? 1 : 0), formatDelta(bikeA.geometry[key], bikeB.geometry[key], unit)]
+      : []),
+  ])
+  return `<section><h2>Rahmengeometrie</h2>${table(headers, rows)}</section>`
+}
+
+function setupSection(bikeA: BikeData, bikeB: BikeData | null): string {
+  // Fehlende optionale Sattelwerte wie in calculateBikeGeometry mit Defaults füllen
+  const cockpitA = { ...DEFAULT_COCKPIT, ...bikeA.cockpit }
+  const cockpitB = bikeB ? { ...DEFAULT_COCKPIT, ...bikeB.cockpit } : null
+  const headers = (title: string) => [title, 'Bike A', ...(bikeB ? ['Bike B'] : [])]
+
+  const cockpitRows = [
+    ['Griffposition', HAND_POSITION_LABELS[cockpitA.handPosition], ...(cockpitB ? [HAND_POSITION_LABELS[cockpitB.handPosition]] : [])],
+    ...COCKPIT_FIELD_INFO.map(({ key, label, unit }) => [
+      label,
+      formatValue(cockpitA[key], unit, 0),
+      ...(cockpitB ? [formatValue(cockpitB[key], unit, 0)] : []),
+    ]),
+  ]
+  const presetLabel = (bike: BikeData) =>
+    RIDER_PROPORTION_PRESETS[bike.rider.proportionPreset ?? DEFAULT_RIDER_PROPORTION_PRESET].label
+  const anklingLabel = (bike: BikeData) =>
+    ANKLING_PROFILES[bike.rider.anklingProfile ?? DEFAULT_ANKLING_PROFILE].label
+  const riderRows = [
+    ['Proportionen', presetLabel(bikeA), ...(bikeB ? [presetLabel(bikeB)] : [])],
+    ['Ankling', anklingLabel(bikeA), ...(bikeB ? [anklingLabel(bikeB)] : [])],
+    ...RIDER_FIELD_INFO.map(({ key, label, unit }) => [
+      label,
+      formatValue(bikeA.rider[key], unit, 0),
+      ...(bikeB ? [formatValue(bikeB.rider[key], unit, 0)] : []),
+    ]),
+  ]
+
+  return (
+    '<div class="columns">' +
+    `<section><h2>Cockpit</h2>${table(headers('Einstellung'), cockpitRows)}</section>` +
+    `<section><h2>Fahrer</h2>${table(headers('Maß'), riderRows)}</section>` +
+    '</div>'
+  )
+}
+
+function comparisonSection(
+  resultA: BikeGeometryResult,
+  resultB: BikeGeometryResult,
+  metricsA: FitMetric[],
+  metricsB: FitMetric[]
+): string {
+  const pointRows = CONTACT_POINTS.flatMap(({ id, label }) => {
+    const a = contactPoint(resultA, id)
+    const b = contactPoint(resultB, id)
+    if (!a || !b) return []
+    return [[label, formatDelta(a.x, b.x, 'mm'), formatDelta(a.y, b.y, 'mm')]]
+  })
+
+  const changedRatings = metricsA.flatMap((metricA) => {
+    const metricB = metricsB.find((m) => m.id === metricA.id)
+    if (!metricB || metricB.rating === metricA.rating) return []
+    return [`<li>${metricA.label}: ${RATING_LABELS[metricA.rating]} → ${RATING_LABELS[metricB.rating]}</li>`]
+  })
+
+  return (
+    '<section><h2>Vergleich A ↔ B</h2>' +
+    '<p class="muted">Verschiebung der Kontaktpunkte von Bike B gegenüber Bike A (x nach vorn, y nach oben).</p>' +
+    table(['Kontaktpunkt', 'Δ horizontal', 'Δ vertikal'], pointRows) +
+    (changedRatings.length > 0
+      ? `<p><b>Geänderte Bewertungen:</b></p><ul>${changedRatings.join('')}</ul>`
+      : '<p class="muted">Keine Änderung der Ampel-Bewertungen.</p>') +
+    '</section>'
+  )
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// REPORT
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Erzeugt einen eigenständigen, druckbaren HTML-Fit-Report (Seitenansicht,
+ * Rahmen, Cockpit, Fahrer und bewertete Kennzahlen; mit Bike B zusätzlich
+ * der A/B-Vergleich). Als PDF über den Druckdialog des Browsers speicherbar.
+ */
+export function buildFitReportHtml(
+  bikeA: BikeData,
+  bikeB: BikeData | null,
+  {
+    createdAt = new Date(),
+    title = 'VeloMetric Fit-Report',
+    thresholdProfile = BUILT_IN_THRESHOLD_PROFILES[DEFAULT_THRESHOLD_PROFILE_ID],
+  }: FitReportOptions = {}
+): string {
+  const resultA = calculateBikeGeometry(bikeA)
+  const resultB = bikeB ? calculateBikeGeometry(bikeB) : null
+  const metricsA = evaluateFit(resultA, thresholdProfile.thresholds)
+  const metricsB = resultB ? evaluateFit(resultB, thresholdProfile.thresholds) : null
+
+  const svg = renderSideViewSvg([
+    { result: resultA, color: BIKE_COLORS.A },
+    ...(resultB ? [{ result: resultB, color: BIKE_COLORS.B }] : []),
+  ])
+
+  const legend =
+    `<span class="bike"><span class="swatch" style="background:${BIKE_COLORS.A}"></span>A: ${bikeName(bikeA)}</span>` +
+    (bikeB ? `<span class="bike"><span class="swatch" style="background:${BIKE_COLORS.B}"></span>B: ${bikeName(bikeB)}</span>` : '')
+
+  return `<!DOCTYPE html>
+<html lang="de">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} – ${bikeName(bikeA)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<div class="actions"><button onclick="window.print()">Drucken / als PDF speichern</button></div>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">Erstellt am ${createdAt.toLocaleDateString('de-DE')} · Schwellen: ${escapeHtml(thresholdProfile.name)} · ${legend}</div>
+<section class="view">${svg}</section>
+${metricsSection(metricsA, metricsB)}
+${resultB && metricsB ? comparisonSection(resultA, resultB, metricsA, metricsB) : ''}
+${geometrySection(bikeA, bikeB)}
+${setupSection(bikeA, bikeB)}
+<p class="disclaimer">⚠️ Dient nur zur Visualisierung, kein medizinischer Rat! Werte sind aus Herstellergeometrie und Körpermaßen modelliert.</p>
+</body>
+</html>
+`
+}
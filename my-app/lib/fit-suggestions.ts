@@ -0,0 +1,238 @@
+import type { BikeData, CockpitSetup } from '@/types/bike'
+import { calculateBikeGeometry } from '@/lib/bike-geometry'
+import { DEFAULT_COCKPIT, getCockpitSearchBounds } from '@/lib/defaults'
+import { COCKPIT_FIELD_INFO } from '@/lib/setup-fields'
+import { evaluateFit, getOutOfRangeFindings, type FitFinding } from '@/lib/fit-evaluation'
+import type { FitMetricId, MetricRating } from '@/lib/metric-ratings'
+import { RACE_THRESHOLDS, type FitThresholds } from '@/lib/threshold-profiles'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Einstellungen, die der Vorschlags-Solver verändern darf. */
+export type SuggestionField =
+  | 'seatPostLength'
+  | 'saddleSetback'
+  | 'stemLength'
+  | 'spacerHeight'
+  | 'stemAngle'
+  | 'crankLength'
+
+export type SetupChange = {
+  field: SuggestionField
+  label: string
+  unit: string
+  before: number
+  after: number
+}
+
+export type MetricChange = {
+  id: FitMetricId
+  label: string
+  unit: string
+  before: number
+  after: number
+  ratingBefore: MetricRating
+  ratingAfter: MetricRating
+}
+
+export type FitSuggestion = {
+  changes: SetupChange[]
+  cockpit: CockpitSetup // komplettes Cockpit mit übernommenen Änderungen
+  metrics: MetricChange[] // alle Kennzahlen vorher/nachher
+  remaining: FitFinding[] // nach der Änderung weiterhin gelb/rot
+}
+
+/** Kleinste Einzeländerung, die genau dieses Finding in den grünen Bereich bringt. */
+export type FindingSuggestion = {
+  finding: FitFinding
+  suggestion: FitSuggestion | null // null: mit einem Parameter nicht lösbar
+}
+
+export type FitSuggestions = {
+  findings: FitFinding[] // gelbe/rote Findings vor der Änderung
+  perFinding: FindingSuggestion[]
+  combined: FitSuggestion | null // kleinste Änderung, die alles grün macht (oder beste Näherung)
+}
+
+/**
+ * Suchraster je Einstellung: Schrittweite und maximale Abweichung vom
+ * aktuellen Wert. Bewusst klein gehalten – gesucht sind Feinkorrekturen,
+ * keine neue Sitzposition.
+ */
+const SUGGESTION_GRID: Record<SuggestionField, { step: number; maxDelta: number }> = {
+  seatPostLength: { step: 5, maxDelta: 60 },
+  saddleSetback: { step: 5, maxDelta: 20 },
+  stemLength: { step: 10, maxDelta: 40 },
+  spacerHeight: { step: 10, maxDelta: 30 },
+  stemAngle: { step: 4, maxDelta: 12 },
+  crankLength: { step: 2.5, maxDelta: 10 },
+}
+
+export const SUGGESTION_FIELDS = Object.keys(SUGGESTION_GRID) as SuggestionField[]
+
+/** Gewichtung je Ampelstufe; rote Findings zählen dreifach. */
+const RATING_PENALTY: Record<MetricRating, number> = { green: 0, yellow: 1, red: 3 }
+
+/** Ansatzpunkte für die Näherung, falls kein Paar alles grün bekommt. */
+const GREEDY_START_CANDIDATES = 5
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER
+// ════════════════════════════════════════════════════════════════════════════
+
+type Candidate = { changes: Partial<Record<SuggestionField, number>>; findings: FitFinding[] }
+
+function currentValue(cockpit: CockpitSetup, field: SuggestionField): number {
+  return cockpit[field] ?? DEFAULT_COCKPIT[field] ?? 0
+}
+
+/** Kandidatenwerte um den aktuellen Wert innerhalb von `getCockpitSearchBounds`. */
+function candidateValues(cockpit: CockpitSetup, field: SuggestionField): number[] {
+  const { step, maxDelta } = SUGGESTION_GRID[field]
+  const current = currentValue(cockpit, field)
+  const { min, max } = getCockpitSearchBounds(field, current)
+  const values: number[] = []
+  for (let delta = -maxDelta; delta <= maxDelta + 1e-9; delta += step) {
+    const value = current + delta
+    if (delta !== 0 && value >= min - 1e-9 && value <= max + 1e-9) values.push(value)
+  }
+  return values
+}
+
+/** Strafwert: gewichtete Ampelstufen plus normierter Abstand zum Optimalbereich. */
+function penalty(findings: FitFinding[]): number {
+  return findings.reduce(
+    (sum, finding) => sum + RATING_PENALTY[finding.rating] * 1000 + finding.distance / (finding.unit === 'mm' ? 20 : 10),
+    0
+  )
+}
+
+/** Aufwand einer Änderung: Anzahl Parameter vor Summe der Rasterschritte. */
+function changeCost(bike: BikeData, changes: Candidate['changes']): number {
+  return Object.entries(changes).reduce((sum, [field, value]) => {
+    const key = field as SuggestionField
+    return sum + 1000 + Math.abs((value ?? 0) - currentValue(bike.cockpit, key)) / SUGGESTION_GRID[key].step
+  }, 0)
+}
+
+function applyChanges(bike: BikeData, changes: Candidate['changes']): BikeData {
+  return { ...bike, cockpit: { ...bike.cockpit, ...changes } }
+}
+
+/** Bester Kandidat: geringster Strafwert, bei Gleichstand geringster Aufwand. */
+function pickBest(bike: BikeData, candidates: Candidate[]): Candidate {
+  return candidates.reduce((best, candidate) => {
+    const penaltyDiff = penalty(candidate.findings) - penalty(best.findings)
+    if (Math.abs(penaltyDiff) > 1e-6) return penaltyDiff < 0 ? candidate : best
+    return changeCost(bike, candidate.changes) < changeCost(bike, best.changes) ? candidate : best
+  })
+}
+
+function toSuggestion(bike: BikeData, before: FitFinding[], candidate: Candidate): FitSuggestion {
+  const changes = SUGGESTION_FIELDS.flatMap((field) => {
+    const after = candidate.changes[field]
+    if (after === undefined) return []
+    const info = COCKPIT_FIELD_INFO.find((entry) => entry.key === field)
+    return [{ field, label: info?.label ?? field, unit: info?.unit ?? '', before: currentValue(bike.cockpit, field), after }]
+  })
+  const metrics = before.flatMap((finding) => {
+    const after = candidate.findings.find((entry) => entry.id === finding.id)
+    if (!after) return []
+    return [{
+      id: finding.id,
+      label: finding.label,
+      unit: finding.unit,
+      before: finding.value,
+      after: after.value,
+      ratingBefore: finding.rating,
+      ratingAfter: after.rating,
+    }]
+  })
+  return {
+    changes,
+    cockpit: applyChanges(bike, candidate.changes).cockpit,
+    metrics,
+    remaining: getOutOfRangeFindings(candidate.findings),
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SOLVER
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Schlägt Cockpit-Änderungen für alle gelben/roten Kennzahlen vor.
+ *
+ * Simuliert kleine Schritte an Sattelstütze, Setback, Vorbau (Länge und
+ * Winkel), Spacern und Kurbellänge mit `calculateBikeGeometry`:
+ * - je Finding die kleinste Einzeländerung, die es grün macht, ohne eine
+ *   andere Kennzahl zu verschlechtern
+ * - gesamt die kleinste Änderung (erst einzelne Parameter, dann Paare), die
+ *   alle Kennzahlen grün macht; klappt das nicht, wird von den besten Paaren
+ *   aus um einen dritten Parameter ergänzt und die beste Näherung geliefert
+ */
+export function suggestFitAdjustments(bike: BikeData, thresholds: FitThresholds = RACE_THRESHOLDS): FitSuggestions {
+  const evaluate = (changes: Candidate['changes']): Candidate => ({
+    changes,
+    findings: evaluateFit(calculateBikeGeometry(applyChanges(bike, changes)), thresholds),
+  })
+  const current = evaluate({})
+  const before = current.findings
+  const outOfRange = getOutOfRangeFindings(before)
+  if (outOfRange.length === 0) return { findings: [], perFinding: [], combined: null }
+
+  const values = Object.fromEntries(
+    SUGGESTION_FIELDS.map((field) => [field, candidateValues(bike.cockpit, field)])
+  ) as Record<SuggestionField, number[]>
+
+  // Einzelne Parameter
+  const singles = SUGGESTION_FIELDS.flatMap((field) => values[field].map((value) => evaluate({ [field]: value })))
+
+  const ratingOf = (findings: FitFinding[], id: FitMetricId) =>
+    RATING_PENALTY[findings.find((finding) => finding.id === id)?.rating ?? 'green']
+  const perFinding = outOfRange.map((finding) => {
+    let best: Candidate | null = null
+    for (const candidate of singles) {
+      const fixes = ratingOf(candidate.findings, finding.id) === 0
+      const noWorse = before.every((other) => ratingOf(candidate.findings, other.id) <= RATING_PENALTY[other.rating])
+      if (fixes && noWorse && (!best || changeCost(bike, candidate.changes) < changeCost(bike, best.changes))) {
+        best = candidate
+      }
+    }
+    return { finding, suggestion: best ? toSuggestion(bike, before, best) : null }
+  })
+
+  // Gesamtlösung: erst einzeln, dann Paare
+  let combined = pickBest(bike, [current, ...singles])
+  let pairs: Candidate[] = []
+  if (penalty(combined.findings) > 0) {
+    pairs = SUGGESTION_FIELDS.flatMap((first, index) =>
+      SUGGESTION_FIELDS.slice(index + 1).flatMap((second) =>
+        values[first].flatMap((a) => values[second].map((b) => evaluate({ [first]: a, [second]: b })))
+      )
+    )
+    combined = pickBest(bike, [combined, ...pairs])
+  }
+
+  // Näherung: die besten Paare um einen dritten Parameter ergänzen
+  if (penalty(combined.findings) > 0) {
+    const starts = [...pairs]
+      .sort((a, b) => penalty(a.findings) - penalty(b.findings))
+      .slice(0, GREEDY_START_CANDIDATES)
+    const extended = starts.flatMap((start) =>
+      SUGGESTION_FIELDS.filter((field) => start.changes[field] === undefined).flatMap((field) =>
+        values[field].map((value) => evaluate({ ...start.changes, [field]: value }))
+      )
+    )
+    combined = pickBest(bike, [combined, ...extended])
+  }
+
+  return {
+    findings: outOfRange,
+    perFinding,
+    // Nur vorschlagen, wenn es tatsächlich besser wird
+    combined: penalty(combined.findings) < penalty(before) ? toSuggestion(bike, before, combined) : null,
+  }
+}
@@ -0,0 +1,73 @@
+import type { AvailableBikesMap, BikeGeometry } from '@/types/bike'
+import { listCustomBikes, type CustomBikeEntry } from '@/lib/custom-bikes'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Zusätzliche Geometriewerte, die optional in die Rangfolge eingehen. */
+export type FrameSearchExtraField = 'headTubeAngle' | 'wheelbase' | 'standoverHeight'
+
+/** Zielwert mit Gewicht (mm Abstand je Einheit Abweichung, 0 = ignorieren). */
+export type FrameSearchExtra = { value: number; weight: number }
+
+export type FrameSearchCriteria = {
+  stack: number
+  reach: number
+  tolerance: number // mm, gilt getrennt für Stack und Reach
+  extras?: Partial<Record<FrameSearchExtraField, FrameSearchExtra>>
+}
+
+export type FrameSearchHit = CustomBikeEntry & {
+  dStack: number // mm, Rahmen − Ziel
+  dReach: number
+  distance: number // Abstand im Stack/Reach-Raum
+  score: number // gewichteter Abstand inkl. Zusatzwerte (kleiner = besser)
+  inTolerance: boolean
+}
+
+/** Standardgewichte: 1° Lenkwinkel zählt wie 10 mm, Radstand/Überstand mit einem Viertel. */
+export const FRAME_SEARCH_DEFAULT_WEIGHTS: Record<FrameSearchExtraField, number> = {
+  headTubeAngle: 10,
+  wheelbase: 0.25,
+  standoverHeight: 0.25,
+}
+
+export const FRAME_SEARCH_EXTRA_FIELDS = Object.keys(FRAME_SEARCH_DEFAULT_WEIGHTS) as FrameSearchExtraField[]
+
+// ════════════════════════════════════════════════════════════════════════════
+// SUCHE
+// ════════════════════════════════════════════════════════════════════════════
+
+function weightedScore(geometry: BikeGeometry, criteria: FrameSearchCriteria, distance: number): number {
+  const squares = Object.entries(criteria.extras ?? {}).reduce((sum, [field, extra]) => {
+    if (!extra || extra.weight <= 0) return sum
+    const delta = (geometry[field as FrameSearchExtraField] - extra.value) * extra.weight
+    return sum + delta * delta
+  }, distance * distance)
+  return Math.sqrt(squares)
+}
+
+/**
+ * Durchsucht alle Marken/Modelle/Größen nach Stack und Reach.
+ *
+ * Liefert alle Rahmen (für das Streudiagramm), sortiert nach gewichtetem
+ * Abstand; `inTolerance` markiert die Treffer im ±Toleranz-Fenster.
+ */
+export function searchFrames(bikes: AvailableBikesMap, criteria: FrameSearchCriteria): FrameSearchHit[] {
+  return listCustomBikes(bikes)
+    .map((entry) => {
+      const dStack = entry.geometry.stack - criteria.stack
+      const dReach = entry.geometry.reach - criteria.reach
+      const distance = Math.hypot(dStack, dReach)
+      return {
+        ...entry,
+        dStack,
+        dReach,
+        distance,
+        score: weightedScore(entry.geometry, criteria, distance),
+        inTolerance: Math.abs(dStack) <= criteria.tolerance && Math.abs(dReach) <= criteria.tolerance,
+      }
+    })
+    .sort((a, b) => a.score - b.score)
+}
@@ -0,0 +1,146 @@
+import type { AvailableBikesMap, BikeGeometry } from '@/types/bike'
+import { calculateBikeGeometry, SCALE } from '@/lib/bike-geometry'
+import { DEFAULT_COCKPIT, DEFAULT_RIDER } from '@/lib/defaults'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Redundante Größen, die aus den übrigen Rahmenwerten nachgerechnet werden. */
+export type ConsistencyCheckId = 'wheelbase' | 'frontCenter' | 'stack'
+
+/** Ergebnis einer einzelnen Prüfung (alle Werte in mm). */
+export type ConsistencyCheck = {
+  id: ConsistencyCheckId
+  label: string
+  declared: number   // Herstellerwert aus der Geometrie
+  derived: number    // aus den Rahmenpunkten nachgerechnet
+  difference: number // derived - declared
+  tolerance: number
+  ok: boolean
+}
+
+/** Gesamtergebnis für eine Größe. */
+export type GeometryConsistencyResult = {
+  checks: ConsistencyCheck[]
+  placeholders: (keyof BikeGeometry)[] // Felder mit typischen Skript-/Schema-Platzhaltern
+  hasIssues: boolean
+}
+
+/** Ergebnis mit Marke/Modell/Größe für den Report über den ganzen Datensatz. */
+export type BikeConsistencyReportEntry = GeometryConsistencyResult & {
+  brand: string
+  model: string
+  size: string
+}
+
+/**
+ * Toleranzen je Prüfung (mm).
+ * Stack und Front Center enthalten die untere Steuersatzschale nicht, die
+ * nicht modelliert ist – daher großzügiger als der Radstand.
+ */
+export const CONSISTENCY_TOLERANCES: Record<ConsistencyCheckId, number> = {
+  wheelbase: 5,
+  frontCenter: 12,
+  stack: 12,
+}
+
+/**
+ * Werte, die `scripts/add-chainstay-frontcenter.js` bzw. die Schema-Defaults
+ * in `bikes-schema.ts` eintragen, wenn der Hersteller nichts angibt.
+ */
+export const PLACEHOLDER_VALUES: Partial<Record<keyof BikeGeometry, number[]>> = {
+  chainstayLength: [410],
+  frontCenter: [580, 600],
+}
+
+const CHECK_LABELS: Record<ConsistencyCheckId, string> = {
+  wheelbase: 'Radstand (Front Center + Kettenstrebe + BB Drop)',
+  frontCenter: 'Front Center (Reach + Steuerrohr + Gabel)',
+  stack: 'Stack (Steuerrohr + Gabel + BB Drop)',
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PRÜFUNG
+// ════════════════════════════════════════════════════════════════════════════
+
+function createCheck(id: ConsistencyCheckId, declared: number, derived: number): ConsistencyCheck {
+  const difference = derived - declared
+  const tolerance = CONSISTENCY_TOLERANCES[id]
+  return {
+    id,
+    label: CHECK_LABELS[id],
+    declared,
+    derived,
+    difference,
+    tolerance,
+    ok: Math.abs(difference) <= tolerance,
+  }
+}
+
+/**
+ * Prüft eine Geometrie auf innere Widersprüche.
+ *
+ * Die Rahmenpunkte kommen aus `calculateBikeGeometry` (Cockpit/Fahrer sind
+ * dafür irrelevant). Daraus werden nachgerechnet:
+ * - Radstand aus den Radpositionen (Front Center, Kettenstrebe, BB Drop)
+ * - Vorderachse aus Steuerrohr-Unterkante + Gabel (Einbaulänge, Offset);
+ *   daraus Front Center (horizontal + BB Drop) und der Stack, bei dem die
+ *   Achse auf BB-Drop-Höhe läge
+ */
+export function checkGeometryConsistency(geometry: BikeGeometry): GeometryConsistencyResult {
+  const { points } = calculateBikeGeometry({
+    brand: '',
+    model: '',
+    size: '',
+    geometry,
+    cockpit: DEFAULT_COCKPIT,
+    rider: DEFAULT_RIDER,
+  })
+
+  // Radstand aus den berechneten Radpositionen
+  const derivedWheelbase = (points.frontWheel.x - points.rearWheel.x) / SCALE
+
+  // Vorderachse: Steuerrohr-Unterkante + Gabel entlang der Lenkachse + Offset senkrecht nach vorn
+  const headTubeAngleRad = (geometry.headTubeAngle * Math.PI) / 180
+  const axisX = Math.cos(headTubeAngleRad)
+  const axisY = Math.sin(headTubeAngleRad)
+  const forkAlongAxis = Math.sqrt(Math.max(0, geometry.forkLength ** 2 - geometry.forkOffset ** 2))
+  const axle = {
+    x: points.headTubeBottom.x / SCALE + axisX * forkAlongAxis + axisY * geometry.forkOffset,
+    y: points.headTubeBottom.y / SCALE + axisY * forkAlongAxis - axisX * geometry.forkOffset,
+  }
+  const derivedFrontCenter = Math.hypot(axle.x, geometry.bbDrop)
+  // Achse liegt bei y = -bbDrop; Abweichung direkt auf den Stack übertragen
+  const derivedStack = geometry.stack + axle.y + geometry.bbDrop
+
+  const checks = [
+    createCheck('wheelbase', geometry.wheelbase, derivedWheelbase),
+    createCheck('frontCenter', geometry.frontCenter, derivedFrontCenter),
+    createCheck('stack', geometry.stack, derivedStack),
+  ]
+
+  const placeholders = (Object.keys(PLACEHOLDER_VALUES) as (keyof BikeGeometry)[]).filter(
+    (key) => PLACEHOLDER_VALUES[key]?.includes(geometry[key])
+  )
+
+  return {
+    checks,
+    placeholders,
+    hasIssues: checks.some((check) => !check.ok) || placeholders.length > 0,
+  }
+}
+
+/** Prüft alle Größen eines Datensatzes (Marke → Modell → Größe). */
+export function checkBikesConsistency(bikes: AvailableBikesMap): BikeConsistencyReportEntry[] {
+  return Object.entries(bikes).flatMap(([brand, models]) =>
+    Object.entries(models).flatMap(([model, sizes]) =>
+      Object.entries(sizes).map(([size, geometry]) => ({
+        brand,
+        model,
+        size,
+        ...checkGeometryConsistency(geometry),
+      }))
+    )
+  )
+}
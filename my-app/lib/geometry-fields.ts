@@ -0,0 +1,25 @@
+import type { BikeGeometry } from '@/types/bike'
+
+/** Anzeige-Metadaten für ein Geometrie-Feld (Label + Einheit). */
+export type GeometryFieldInfo = {
+  key: keyof BikeGeometry
+  label: string
+  unit: 'mm' | '°'
+}
+
+/** Alle Felder von `BikeGeometry` in Anzeige-Reihenfolge (wie im Geometrie-Panel). */
+export const GEOMETRY_FIELDS: readonly GeometryFieldInfo[] = [
+  { key: 'stack',           label: 'Stack',        unit: 'mm' },
+  { key: 'reach',           label: 'Reach',        unit: 'mm' },
+  { key: 'headTubeAngle',   label: 'Lenkwinkel',   unit: '°' },
+  { key: 'seatTubeAngle',   label: 'Sitzwinkel',   unit: '°' },
+  { key: 'wheelbase',       label: 'Radstand',     unit: 'mm' },
+  { key: 'standoverHeight', label: 'Überstand',    unit: 'mm' },
+  { key: 'forkOffset',      label: 'Gabel-Offset', unit: 'mm' },
+  { key: 'forkLength',      label: 'Gabel-Länge',  unit: 'mm' },
+  { key: 'bbDrop',          label: 'BB Drop',      unit: 'mm' },
+  { key: 'headTubeLength',  label: 'Steuerrohr',   unit: 'mm' },
+  { key: 'seatTubeLength',  label: 'Sitzrohr',     unit: 'mm' },
+  { key: 'chainstayLength', label: 'Kettenstrebe', unit: 'mm' },
+  { key: 'frontCenter',     label: 'Front Center', unit: 'mm' },
+]
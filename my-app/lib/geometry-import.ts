@@ -0,0 +1,329 @@
+import { z } from 'zod'
+import type { AvailableBikesMap, BikeGeometry } from '@/types/bike'
+import { availableBikesSchema, bikeGeometrySchema } from '@/lib/bikes-schema'
+import { GEOMETRY_FIELDS } from '@/lib/geometry-fields'
+import { listCustomBikes } from '@/lib/custom-bikes'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Lage der Größen in der Tabelle: als Spalten (Hersteller-Standard) oder als Zeilen. */
+export type ImportOrientation = 'sizesAsColumns' | 'sizesAsRows'
+
+/** Einheit der Längenwerte in der Quelle (Winkel bleiben immer in Grad). */
+export type ImportUnit = 'mm' | 'cm'
+
+/** Zuordnung normalisiertes Label → Geometrie-Feld (null = Zeile/Spalte ignorieren). */
+export type HeaderMapping = Record<string, keyof BikeGeometry | null>
+
+export type GeometryCsvOptions = {
+  brand: string
+  model: string
+  orientation?: ImportOrientation | 'auto'
+  unit?: ImportUnit
+  headerMapping?: HeaderMapping // überschreibt die Standard-Aliase
+}
+
+/** Erkannte Tabellenbeschriftung mit zugeordnetem Feld. */
+export type ImportLabel = {
+  label: string      // Originaltext aus der Tabelle
+  normalized: string // Schlüssel für `headerMapping`
+  field: keyof BikeGeometry | null
+}
+
+export type GeometryImportResult = {
+  bikes: AvailableBikesMap // nur gültige Größen
+  errors: string[]
+  labels: ImportLabel[]
+  orientation: ImportOrientation
+}
+
+export type GeometryDiffEntry = {
+  brand: string
+  model: string
+  size: string
+  status: 'added' | 'changed' | 'unchanged'
+  changes: { field: keyof BikeGeometry; before?: number; after: number }[]
+}
+
+/**
+ * Standard-Aliase je Feld (normalisiert, deutsch + englisch).
+ * Typische Bezeichnungen aus Hersteller-Geometrietabellen.
+ */
+export const HEADER_ALIASES: Record<keyof BikeGeometry, string[]> = {
+  stack: ['stack'],
+  reach: ['reach'],
+  headTubeAngle: ['head tube angle', 'head angle', 'hta', 'lenkwinkel', 'steuerrohrwinkel', 'lenkkopfwinkel'],
+  seatTubeAngle: ['seat tube angle', 'seat angle', 'sta', 'sitzwinkel', 'sitzrohrwinkel'],
+  forkLength: ['fork length', 'axle to crown', 'gabellänge', 'gabel länge', 'einbauhöhe gabel'],
+  bbDrop: ['bb drop', 'bottom bracket drop', 'tretlagerabsenkung', 'innenlagerabsenkung'],
+  headTubeLength: ['head tube length', 'head tube', 'steuerrohr', 'steuerrohrlänge'],
+  seatTubeLength: ['seat tube length', 'seat tube', 'sitzrohr', 'sitzrohrlänge'],
+  chainstayLength: ['chainstay length', 'chainstay', 'chain stay', 'kettenstrebe', 'kettenstrebenlänge'],
+  frontCenter: ['front center', 'front centre', 'frontcenter'],
+  forkOffset: ['fork offset', 'fork rake', 'rake', 'offset', 'gabelvorbiegung', 'gabel offset', 'vorlauf gabel'],
+  wheelbase: ['wheelbase', 'wheel base', 'radstand'],
+  standoverHeight: ['standover height', 'standover', 'überstandshöhe', 'überstand', 'schritthöhe'],
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Normalisiert ein Tabellen-Label: Kleinschreibung, ohne Einheiten/Klammern/Sonderzeichen. */
+export function normalizeLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, ' ')
+    .replace(/[^a-z0-9äöüß]+/g, ' ')
+    .replace(/\b(mm|cm|deg|grad)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function resolveField(normalized: string, mapping: HeaderMapping): keyof BikeGeometry | null {
+  if (Object.prototype.hasOwnProperty.call(mapping, normalized)) return mapping[normalized]
+  const match = (Object.keys(HEADER_ALIASES) as (keyof BikeGeometry)[]).find((field) =>
+    HEADER_ALIASES[field].includes(normalized)
+  )
+  return match ?? null
+}
+
+/** Erkennt das Trennzeichen anhand der ersten Zeile (Semikolon, Tab oder Komma). */
+function detectDelimiter(firstLine: string): string {
+  const candidates = [';', '\t', ',']
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+}
+
+/** Minimaler CSV-Parser mit Anführungszeichen-Unterstützung. */
+export function parseCsvRows(text: string): string[][] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '')
+  if (lines.length === 0) return []
+  const delimiter = detectDelimiter(lines[0])
+
+  return lines.map((line) => {
+    const cells: string[] = []
+    let current = ''
+    let quoted = false
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (char === '"') {
+        if (quoted && line[i + 1] === '"') {
+          current += '"'
+          i++
+        } else {
+          quoted = !quoted
+        }
+      } else if (char === delimiter && !quoted) {
+        cells.push(current.trim())
+        current = ''
+      } else {
+        current += char
+      }
+    }
+    cells.push(current.trim())
+    return cells
+  })
+}
+
+/** Liest Zahlen wie "73,5°", "575 mm" oder "57.5". */
+function parseNumber(raw: string): number | undefined {
+  const cleaned = raw.replace(/,/g, '.').replace(/[^0-9.+-]/g, '')
+  if (cleaned === '') return undefined
+  const value = Number(cleaned)
+  return Number.isFinite(value) ? value : undefined
+}
+
+/** Werte einer Größe vor der Vollständigkeitsprüfung: nur Typen, alle Felder optional. */
+const partialGeometrySchema = bikeGeometrySchema.partial()
+
+/** Wie `bikeGeometrySchema`, aber ohne Platzhalter für die Kettenstrebe – fehlt sie, ist das ein Fehler. */
+const importedGeometrySchema = bikeGeometrySchema.extend({ chainstayLength: z.number() })
+
+const FIELD_UNITS = Object.fromEntries(GEOMETRY_FIELDS.map(({ key, unit }) => [key, unit])) as Record<
+  keyof BikeGeometry,
+  'mm' | '°'
+>
+
+/**
+ * Ergänzt Front Center aus Radstand, Kettenstrebe und BB Drop, falls die
+ * Tabelle ihn nicht enthält (sonst griffe der Schema-Platzhalter).
+ */
+function deriveMissingFrontCenter(
+  values: Partial<Record<keyof BikeGeometry, number>>
+): Partial<Record<keyof BikeGeometry, number>> {
+  const { frontCenter, wheelbase, chainstayLength, bbDrop } = values
+  if (frontCenter !== undefined || wheelbase === undefined || chainstayLength === undefined || bbDrop === undefined) {
+    return values
+  }
+  const rearWheelX = Math.sqrt(Math.max(0, chainstayLength ** 2 - bbDrop ** 2))
+  return { ...values, frontCenter: Math.round(Math.hypot(wheelbase - rearWheelX, bbDrop)) }
+}
+
+/** Validiert die gesammelten Werte je Größe und baut die Brand → Model → Size Struktur. */
+function buildResult(
+  brand: string,
+  model: string,
+  sizes: Map<string, unknown>,
+  errors: string[]
+): AvailableBikesMap {
+  const validSizes: Record<string, BikeGeometry> = {}
+  sizes.forEach((raw, size) => {
+    const values = partialGeometrySchema.safeParse(raw)
+    if (!values.success) {
+      const invalid = Object.keys(values.error.flatten().fieldErrors)
+      errors.push(invalid.length > 0
+        ? `Größe ${size}: ungültige Werte (${invalid.join(', ')})`
+        : `Größe ${size}: keine Geometrie-Werte`)
+      return
+    }
+    const result = importedGeometrySchema.safeParse(deriveMissingFrontCenter(values.data))
+    if (result.success) {
+      validSizes[size] = result.data
+      return
+    }
+    const missing = Object.keys(result.error.flatten().fieldErrors)
+    errors.push(`Größe ${size}: fehlende oder ungültige Werte (${missing.join(', ')})`)
+  })
+
+  if (Object.keys(validSizes).length === 0) return {}
+  const parsed = availableBikesSchema.safeParse({ [brand]: { [model]: validSizes } })
+  if (!parsed.success) {
+    errors.push('Importierte Daten entsprechen nicht dem Bike-Schema.')
+    return {}
+  }
+  return parsed.data
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// IMPORT
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Importiert eine Hersteller-Geometrietabelle im CSV-Format.
+ *
+ * Die erste Zeile bzw. Spalte enthält die Größen, die andere Achse die
+ * Geometrie-Bezeichnungen. Bei `orientation: 'auto'` gewinnt die Achse mit
+ * mehr erkannten Bezeichnungen. Längen in cm werden in mm umgerechnet.
+ */
+export function importGeometryCsv(text: string, options: GeometryCsvOptions): GeometryImportResult {
+  const { brand, model, unit = 'mm', headerMapping = {} } = options
+  const rows = parseCsvRows(text)
+  const errors: string[] = []
+
+  if (!brand.trim() || !model.trim()) errors.push('Marke und Modell angeben.')
+  if (rows.length < 2) {
+    return { bikes: {}, errors: [...errors, 'Tabelle braucht mindestens zwei Zeilen.'], labels: [], orientation: 'sizesAsColumns' }
+  }
+
+  const toLabel = (label: string): ImportLabel => {
+    const normalized = normalizeLabel(label)
+    return { label, normalized, field: resolveField(normalized, headerMapping) }
+  }
+  const columnLabels = rows.slice(1).map((row) => toLabel(row[0] ?? ''))
+  const rowLabels = rows[0].slice(1).map(toLabel)
+
+  const orientation: ImportOrientation =
+    options.orientation && options.orientation !== 'auto'
+      ? options.orientation
+      : columnLabels.filter((l) => l.field).length >= rowLabels.filter((l) => l.field).length
+        ? 'sizesAsColumns'
+        : 'sizesAsRows'
+
+  const labels = orientation === 'sizesAsColumns' ? columnLabels : rowLabels
+  const sizeNames = orientation === 'sizesAsColumns'
+    ? rows[0].slice(1)
+    : rows.slice(1).map((row) => row[0] ?? '')
+
+  const sizes = new Map<string, Partial<Record<keyof BikeGeometry, number>>>()
+  sizeNames.forEach((size, sizeIndex) => {
+    if (!size.trim()) return
+    const values: Partial<Record<keyof BikeGeometry, number>> = {}
+    labels.forEach((label, labelIndex) => {
+      if (!label.field) return
+      const raw = orientation === 'sizesAsColumns'
+        ? rows[labelIndex + 1]?.[sizeIndex + 1]
+        : rows[sizeIndex + 1]?.[labelIndex + 1]
+      const value = parseNumber(raw ?? '')
+      if (value === undefined) return
+      // cm → mm; auf 0,1 mm runden, um Gleitkomma-Reste zu vermeiden
+      values[label.field] = unit === 'cm' && FIELD_UNITS[label.field] === 'mm'
+        ? Math.round(value * 100) / 10
+        : value
+    })
+    sizes.set(size.trim(), values)
+  })
+
+  return {
+    bikes: buildResult(brand.trim(), model.trim(), sizes, errors),
+    errors,
+    labels,
+    orientation,
+  }
+}
+
+/**
+ * Importiert Geometrien im JSON-Format (Werte in mm / Grad): entweder die
+ * komplette Struktur wie `data/bikes.json` oder nur Größe → Geometrie für
+ * das angegebene Modell.
+ */
+export function importGeometryJson(
+  text: string,
+  { brand, model }: Pick<GeometryCsvOptions, 'brand' | 'model'>
+): GeometryImportResult {
+  const empty = { labels: [], orientation: 'sizesAsColumns' as const }
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { bikes: {}, errors: ['Ungültiges JSON.'], ...empty }
+  }
+
+  // Komplette Struktur: jede Größe einzeln prüfen, ungültige als Fehler melden
+  const full = z.record(z.string(), z.record(z.string(), z.record(z.string(), z.unknown()))).safeParse(json)
+  if (full.success) {
+    const errors: string[] = []
+    const bikes: AvailableBikesMap = {}
+    Object.entries(full.data).forEach(([fullBrand, models]) => {
+      Object.entries(models).forEach(([fullModel, sizes]) => {
+        const parsed = buildResult(fullBrand, fullModel, new Map(Object.entries(sizes)), errors)[fullBrand]?.[fullModel]
+        if (parsed) bikes[fullBrand] = { ...bikes[fullBrand], [fullModel]: parsed }
+      })
+    })
+    return { bikes, errors, ...empty }
+  }
+
+  const sizesOnly = z.record(z.string(), z.unknown()).safeParse(json)
+  if (!sizesOnly.success) return { bikes: {}, errors: ['Unbekannte JSON-Struktur.'], ...empty }
+  if (!brand.trim() || !model.trim()) {
+    return { bikes: {}, errors: ['Marke und Modell angeben.'], ...empty }
+  }
+
+  const errors: string[] = []
+  const sizes = new Map(Object.entries(sizesOnly.data))
+  return { bikes: buildResult(brand.trim(), model.trim(), sizes, errors), errors, ...empty }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// DIFF
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Vergleicht importierte Geometrien mit einem bestehenden Datensatz (pro Größe und Feld). */
+export function diffBikes(base: AvailableBikesMap, incoming: AvailableBikesMap): GeometryDiffEntry[] {
+  return listCustomBikes(incoming).map(({ brand, model, size, geometry }) => {
+    const existing = base[brand]?.[model]?.[size]
+    const changes = GEOMETRY_FIELDS
+      .filter(({ key }) => existing?.[key] !== geometry[key])
+      .map(({ key }) => ({ field: key, before: existing?.[key], after: geometry[key] }))
+    return {
+      brand,
+      model,
+      size,
+      status: !existing ? 'added' : changes.length > 0 ? 'changed' : 'unchanged',
+      changes,
+    }
+  })
+}
@@ -0,0 +1,55 @@
+// ════════════════════════════════════════════════════════════════════════════
+// BILD-EXPORT (nur im Browser)
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Wählbare PNG-Breiten in Pixel (Höhe folgt dem Seitenverhältnis). */
+export const PNG_EXPORT_WIDTHS = [1200, 2400, 3600] as const
+
+export type PngExportWidth = (typeof PNG_EXPORT_WIDTHS)[number]
+
+/** Startet den Download eines Blobs unter dem angegebenen Dateinamen. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/** Rastert SVG-Markup (mit viewBox) auf die gewünschte Breite als PNG. */
+export function svgToPngBlob(svg: string, width: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }))
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = Math.round((width * image.naturalHeight) / image.naturalWidth)
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Canvas nicht verfügbar'))
+        return
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG-Export fehlgeschlagen'))), 'image/png')
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('SVG konnte nicht geladen werden'))
+    }
+    image.src = url
+  })
+}
+
+/** Dateiname ohne Sonderzeichen, z.B. "cannondale-supersix-evo4-58". */
+export function toFileSlug(...parts: string[]): string {
+  return parts
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9äöüß]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
@@ -0,0 +1,135 @@
+import type { BikeData } from '@/types/bike'
+import { calculateBikeGeometry, SCALE, type Point2D } from '@/lib/bike-geometry'
+import { COCKPIT_LIMITS } from '@/lib/defaults'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Bezugspunkt des Lots: Pedalachse oder Fußballen. */
+export type KopsReference = 'spindle' | 'ballOfFoot'
+
+/** Einstellung, über die das Knie nach vorn/hinten verschoben wird. */
+export type KopsAdjustField = 'saddleSetback' | 'sitboneOffset'
+
+export type KopsAnalysis = {
+  knee: Point2D // Knie bei 3 Uhr (SVG-Koordinaten)
+  spindle: Point2D // Pedalachse bei 3 Uhr
+  ballOfFoot: Point2D // Fußballen bei 3 Uhr, um den Cleat-Versatz vor dem Cleat
+  offsets: Record<KopsReference, number> // mm, Knie − Bezugspunkt (positiv = Knie davor)
+  kneeExtension: number // Kniewinkel bei 6 Uhr (°), für Nebenwirkungen
+}
+
+export type KopsTarget = {
+  offset: number // gewünschter Abstand in mm (positiv = Knie vor Bezugspunkt)
+  reference: KopsReference
+  field: KopsAdjustField
+}
+
+export type KopsSolution = {
+  field: KopsAdjustField
+  value: number // gerundet und auf COCKPIT_LIMITS begrenzt
+  reachable: boolean // Ziel innerhalb des Verstellbereichs erreichbar
+  before: KopsAnalysis
+  after: KopsAnalysis
+}
+
+/** Kurbelstellung für das Lot: 3 Uhr (Pedal vorn, waagerecht). */
+export const KOPS_PEDAL_ANGLE = 0
+
+/** Kurbelstellung für die Kniestreckung: 6 Uhr. */
+const KNEE_EXTENSION_PEDAL_ANGLE = 90
+
+export const KOPS_REFERENCE_LABELS: Record<KopsReference, string> = {
+  spindle: 'Pedalachse',
+  ballOfFoot: 'Fußballen',
+}
+
+export const KOPS_FIELD_LABELS: Record<KopsAdjustField, string> = {
+  saddleSetback: 'Setback',
+  sitboneOffset: 'Sitzposition',
+}
+
+const BISECTION_STEPS = 30
+
+// ════════════════════════════════════════════════════════════════════════════
+// ANALYSE
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Knie-Lot bei 3 Uhr relativ zu Pedalachse und Fußballen. Der Fußballen
+ * liegt um `cleatOffset` vor dem Cleat (entlang des Fußes Richtung Zehen),
+ * bei Versatz 0 also über der Pedalachse. Die Kniestreckung wird mit dem
+ * vollen Modell bei 6 Uhr gerechnet, damit auch die Sitzposition auf dem
+ * Sattel eingeht.
+ */
+export function analyzeKops(bike: BikeData): KopsAnalysis {
+  const result = calculateBikeGeometry({ ...bike, cockpit: { ...bike.cockpit, pedalAngle: KOPS_PEDAL_ANGLE } })
+  const extension = calculateBikeGeometry({
+    ...bike,
+    cockpit: { ...bike.cockpit, pedalAngle: KNEE_EXTENSION_PEDAL_ANGLE },
+  })
+  const { kneeNew: knee, pedalRight: spindle, cleatBottom: cleat, footContact } = result.points
+  const footLength = Math.hypot(cleat.x - footContact.x, cleat.y - footContact.y)
+  const cleatOffset = (bike.cockpit.cleatOffset ?? 0) * SCALE
+  const ballOfFoot: Point2D = footLength > 0
+    ? {
+        x: cleat.x + ((cleat.x - footContact.x) / footLength) * cleatOffset,
+        y: cleat.y + ((cleat.y - footContact.y) / footLength) * cleatOffset,
+      }
+    : cleat
+  return {
+    knee,
+    spindle,
+    ballOfFoot,
+    offsets: {
+      spindle: (knee.x - spindle.x) / SCALE,
+      ballOfFoot: (knee.x - ballOfFoot.x) / SCALE,
+    },
+    kneeExtension: extension.kneeAngle ?? 0,
+  }
+}
+
+/**
+ * Bestimmt Setback bzw. Sitzposition, mit der das Knie bei 3 Uhr im
+ * gewünschten Abstand zum Bezugspunkt liegt.
+ *
+ * Der Abstand ändert sich monoton mit dem Wert (Richtung je nach Feld);
+ * gesucht wird per Bisektion im Verstellbereich aus `COCKPIT_LIMITS`. Die
+ * Änderung der Kniestreckung ergibt sich aus `before`/`after`.
+ */
+export function solveKopsAdjustment(bike: BikeData, target: KopsTarget): KopsSolution {
+  const { min, max, step = 1 } = COCKPIT_LIMITS[target.field]
+  const offsetAt = (value: number) =>
+    analyzeKops({ ...bike, cockpit: { ...bike.cockpit, [target.field]: value } }).offsets[target.reference]
+
+  const offsetAtMin = offsetAt(min)
+  const offsetAtMax = offsetAt(max)
+  const reachable =
+    target.offset >= Math.min(offsetAtMin, offsetAtMax) && target.offset <= Math.max(offsetAtMin, offsetAtMax)
+
+  let ideal: number
+  if (!reachable) {
+    // Näheres Ende des Verstellbereichs
+    ideal = Math.abs(offsetAtMin - target.offset) < Math.abs(offsetAtMax - target.offset) ? min : max
+  } else {
+    let low = min
+    let high = max
+    const ascending = offsetAtMax > offsetAtMin
+    for (let i = 0; i < BISECTION_STEPS; i++) {
+      const mid = (low + high) / 2
+      if ((offsetAt(mid) < target.offset) === ascending) low = mid
+      else high = mid
+    }
+    ideal = (low + high) / 2
+  }
+
+  const value = Math.max(min, Math.min(max, Math.round(ideal / step) * step))
+  return {
+    field: target.field,
+    value,
+    reachable,
+    before: analyzeKops(bike),
+    after: analyzeKops({ ...bike, cockpit: { ...bike.cockpit, [target.field]: value } }),
+  }
+}
@@ -0,0 +1,39 @@
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Ampel-Bewertung einer Messung. */
+export type MetricRating = 'green' | 'yellow' | 'red'
+
+/** Ampelfarben wie in `BikeVisualization`. */
+export const RATING_COLORS: Record<MetricRating, string> = {
+  green: '#22c55e',
+  yellow: '#f39c12',
+  red: '#e74c3c',
+}
+
+export const RATING_LABELS: Record<MetricRating, string> = {
+  green: 'optimal',
+  yellow: 'grenzwertig',
+  red: 'kritisch',
+}
+
+/** Bewertete biomechanische Kennzahlen (Schlüssel aus `BikeGeometryResult`). */
+export type FitMetricId =
+  | 'kneeAngleAt90'
+  | 'kneeAngleAt270'
+  | 'kneeTopedalXAt0'
+  | 'shoulderAngle'
+  | 'elbowAngle'
+  | 'ankleAngleAt270'
+  | 'hipAngleMin'
+  | 'saddleHandlebarDrop'
+
+export type FitMetric = {
+  id: FitMetricId
+  label: string
+  unit: 'mm' | '°'
+  value: number
+  rating: MetricRating
+  range: string // Optimalbereich als Text
+}
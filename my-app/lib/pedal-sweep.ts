@@ -0,0 +1,128 @@
+import type { BikeData } from '@/types/bike'
+import {
+  calculateBikeGeometry,
+  calculateKneeAngleAtPedalAngle,
+  HIP_JOINT_OFFSET_RATIO,
+  resolveFootModel,
+  resolveRiderSegments,
+  SCALE,
+} from '@/lib/bike-geometry'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Gelenkwinkel, die über die Kurbelumdrehung verfolgt werden. */
+export type PedalSweepJoint = 'knee' | 'hip' | 'ankle'
+
+/** Gelenkwinkel (°) bei einem Kurbelwinkel. */
+export type PedalSweepSample = { pedalAngle: number } & Record<PedalSweepJoint, number>
+
+export type PedalSweepExtremes = {
+  min: number
+  minAt: number // Kurbelwinkel des Minimums (°)
+  max: number
+  maxAt: number
+  range: number
+}
+
+export type PedalSweepResult = {
+  resolution: number // Schrittweite in Grad
+  samples: PedalSweepSample[]
+  extremes: Record<PedalSweepJoint, PedalSweepExtremes>
+}
+
+export const PEDAL_SWEEP_JOINTS: readonly PedalSweepJoint[] = ['knee', 'hip', 'ankle']
+
+export const PEDAL_SWEEP_LABELS: Record<PedalSweepJoint, string> = {
+  knee: 'Kniewinkel',
+  hip: 'Hüftwinkel',
+  ankle: 'Sprunggelenk',
+}
+
+/** Wählbare Auflösungen in Grad (360 muss ohne Rest teilbar sein). */
+export const PEDAL_SWEEP_RESOLUTIONS = [1, 2, 5, 10, 15] as const
+
+export const DEFAULT_PEDAL_SWEEP_RESOLUTION = 5
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER
+// ════════════════════════════════════════════════════════════════════════════
+
+function findExtremes(samples: PedalSweepSample[], joint: PedalSweepJoint): PedalSweepExtremes {
+  let min = samples[0]
+  let max = samples[0]
+  for (const sample of samples) {
+    if (sample[joint] < min[joint]) min = sample
+    if (sample[joint] > max[joint]) max = sample
+  }
+  return {
+    min: min[joint],
+    minAt: min.pedalAngle,
+    max: max[joint],
+    maxAt: max.pedalAngle,
+    range: max[joint] - min[joint],
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SWEEP
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Rechnet den Fahrer über eine volle Kurbelumdrehung (0° = vorne, 90° = unten)
+ * in Schritten von `resolution` Grad durch.
+ *
+ * Hüft- und Sprunggelenkwinkel stammen direkt aus `calculateBikeGeometry`
+ * (jeweils beim aktuellen Pedalwinkel des Durchlaufs). Der Kniewinkel nutzt
+ * dasselbe Modell wie `kneeAngleAt90`/`kneeAngleAt270` (ohne Dehnungskorrektur
+ * über den Fußwinkel), damit die Kurve bei 90° und 270° den Kacheln entspricht.
+ */
+export function sweepPedalStroke(
+  bike: BikeData,
+  resolution: number = DEFAULT_PEDAL_SWEEP_RESOLUTION
+): PedalSweepResult {
+  const step = Math.max(1, resolution)
+  const samples: PedalSweepSample[] = []
+
+  // Knie-Modell der Kacheln: hängt nicht vom Pedalwinkel ab
+  const { points, torsoAngle } = calculateBikeGeometry(bike)
+  const segments = resolveRiderSegments(bike.rider)
+  const foot = resolveFootModel(bike)
+  const hipJointOffset = bike.rider.riderInseam * HIP_JOINT_OFFSET_RATIO * SCALE
+  const torsoAngleRad = ((torsoAngle ?? bike.rider.torsoAngle) * Math.PI) / 180
+
+  for (let pedalAngle = 0; pedalAngle < 360; pedalAngle += step) {
+    const { hipAngle, ankleAngle } = calculateBikeGeometry({
+      ...bike,
+      cockpit: { ...bike.cockpit, pedalAngle },
+    })
+    const kneeAngle = calculateKneeAngleAtPedalAngle(
+      pedalAngle,
+      bike.cockpit.crankLength,
+      points.saddleTop,
+      points.bb,
+      segments,
+      foot,
+      bike.rider.shoeThickness,
+      hipJointOffset,
+      torsoAngleRad
+    )
+    samples.push({
+      pedalAngle,
+      knee: kneeAngle,
+      hip: hipAngle ?? 0,
+      ankle: ankleAngle ?? 0,
+    })
+  }
+
+  return {
+    resolution: step,
+    samples,
+    extremes: {
+      knee: findExtremes(samples, 'knee'),
+      hip: findExtremes(samples, 'hip'),
+      ankle: findExtremes(samples, 'ankle'),
+    },
+  }
+}
@@ -0,0 +1,151 @@
+import type { BikeData, CockpitSetup } from '@/types/bike'
+import { calculateBikeGeometry, SCALE, type BikeGeometryResult } from '@/lib/bike-geometry'
+import { COCKPIT_LIMITS, SADDLE_CONSTANTS } from '@/lib/defaults'
+import { solveCockpitForHandlebar } from '@/lib/cockpit-solver'
+import type { NumericCockpitField } from '@/lib/setup-fields'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Kontaktpunkte, die von Bike A auf Bike B übertragen werden. */
+export type TransferPointId = 'saddleTop' | 'hipJoint' | 'handContact'
+
+export type TransferResidual = {
+  id: TransferPointId
+  label: string
+  dx: number // mm, B − A (nach vorn positiv)
+  dy: number // mm, B − A (nach oben positiv)
+  distance: number
+}
+
+/** Feld, dessen Idealwert außerhalb von `COCKPIT_LIMITS` liegt. */
+export type TransferLimit = {
+  field: NumericCockpitField
+  ideal?: number // fehlt bei Vorbau/Spacer (beste Kombination liegt am Rand)
+  applied: number
+}
+
+export type PositionTransferResult = {
+  bike: BikeData // Bike B mit übertragenem Setup
+  cockpit: Partial<CockpitSetup> // geänderte Cockpit-Werte
+  residuals: TransferResidual[]
+  limits: TransferLimit[]
+  exact: boolean // alle Restfehler ≤ TRANSFER_TOLERANCE
+}
+
+/** Restfehler (mm), ab dem ein Punkt als nicht exakt übertragen gilt. */
+export const TRANSFER_TOLERANCE = 1
+
+const POINT_LABELS: Record<TransferPointId, string> = {
+  saddleTop: 'Sattel',
+  hipJoint: 'Hüftgelenk',
+  handContact: 'Handkontakt',
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Griffpunkt je nach Handposition (Hoods = Lenkermitte, Drops = Bogenende). */
+function handContact(result: BikeGeometryResult, cockpit: CockpitSetup) {
+  return cockpit.handPosition === 'drops' && result.points.handlebarDropEnd
+    ? result.points.handlebarDropEnd
+    : result.points.handlebarCenter
+}
+
+function clampToLimit(field: NumericCockpitField, ideal: number, limits: TransferLimit[]): number {
+  const { min, max } = COCKPIT_LIMITS[field]
+  const applied = Math.round(Math.max(min, Math.min(max, ideal)))
+  if (ideal < min || ideal > max) limits.push({ field, ideal, applied })
+  return applied
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ÜBERTRAGUNG
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Überträgt die Sitzposition von Bike A auf Bike B.
+ *
+ * Fahrer, Sattel und Lenker (Reach/Drop/Griffposition) werden von A
+ * übernommen, Rahmen, Kurbel und Top Cap bleiben von B. Dann werden
+ * Sattelstützen-Auszug und Setback so gesetzt, dass der Sattel-Mittelpunkt
+ * (und damit das Hüftgelenk) auf A liegt, und Vorbau/Spacer so gewählt, dass
+ * die Lenkermitte von A erreicht wird.
+ */
+export function transferPosition(source: BikeData, target: BikeData): PositionTransferResult {
+  const sourceResult = calculateBikeGeometry(source)
+  const limits: TransferLimit[] = []
+
+  // Sattel: Auszug aus der Höhe, Setback aus dem verbleibenden X-Versatz
+  const seatTubeAngleRad = (target.geometry.seatTubeAngle * Math.PI) / 180
+  const seatTubeTop = {
+    x: -Math.cos(seatTubeAngleRad) * target.geometry.seatTubeLength,
+    y: Math.sin(seatTubeAngleRad) * target.geometry.seatTubeLength,
+  }
+  const saddle = { x: sourceResult.points.saddleTop.x / SCALE, y: -sourceResult.points.saddleTop.y / SCALE }
+  const idealSeatPost = (saddle.y - seatTubeTop.y) / Math.sin(seatTubeAngleRad)
+  const seatPostLength = clampToLimit('seatPostLength', idealSeatPost, limits)
+  const seatPostTopX = seatTubeTop.x - Math.cos(seatTubeAngleRad) * seatPostLength
+  const saddleSetback = clampToLimit('saddleSetback', seatPostTopX - saddle.x, limits)
+
+  const baseCockpit: CockpitSetup = {
+    ...target.cockpit,
+    handlebarReach: source.cockpit.handlebarReach,
+    handlebarDrop: source.cockpit.handlebarDrop,
+    handPosition: source.cockpit.handPosition,
+    saddleLength: source.cockpit.saddleLength ?? SADDLE_CONSTANTS.saddleLength,
+    sitboneOffset: source.cockpit.sitboneOffset,
+    cleatOffset: source.cockpit.cleatOffset,
+    seatPostLength,
+    saddleSetback,
+  }
+  const baseBike: BikeData = { ...target, rider: { ...source.rider }, cockpit: baseCockpit }
+
+  // Lenker: beste Vorbau/Spacer-Kombination für die Lenkermitte von A
+  const handlebarTarget = {
+    x: sourceResult.points.handlebarCenter.x / SCALE,
+    y: -sourceResult.points.handlebarCenter.y / SCALE,
+    reference: 'bb' as const,
+  }
+  const [stem] = solveCockpitForHandlebar(baseBike, handlebarTarget, { limit: 1 })
+  if (stem && stem.error > TRANSFER_TOLERANCE) {
+    // Grenzwerte, an denen die beste Lösung anschlägt
+    for (const field of ['stemLength', 'stemAngle', 'spacerHeight'] as const) {
+      const { min, max } = COCKPIT_LIMITS[field]
+      if (stem[field] === min || stem[field] === max) limits.push({ field, applied: stem[field] })
+    }
+  }
+
+  const cockpit: CockpitSetup = stem
+    ? { ...baseCockpit, stemLength: stem.stemLength, stemAngle: stem.stemAngle, spacerHeight: stem.spacerHeight }
+    : baseCockpit
+  const bike: BikeData = { ...baseBike, cockpit }
+  const result = calculateBikeGeometry(bike)
+
+  const pairs: [TransferPointId, { x: number; y: number }, { x: number; y: number }][] = [
+    ['saddleTop', sourceResult.points.saddleTop, result.points.saddleTop],
+    ['hipJoint', sourceResult.points.hipJoint, result.points.hipJoint],
+    ['handContact', handContact(sourceResult, source.cockpit), handContact(result, cockpit)],
+  ]
+  const residuals = pairs.map(([id, a, b]) => {
+    const dx = (b.x - a.x) / SCALE
+    const dy = -(b.y - a.y) / SCALE
+    return { id, label: POINT_LABELS[id], dx, dy, distance: Math.hypot(dx, dy) }
+  })
+
+  return {
+    bike,
+    cockpit: {
+      seatPostLength,
+      saddleSetback,
+      stemLength: cockpit.stemLength,
+      stemAngle: cockpit.stemAngle,
+      spacerHeight: cockpit.spacerHeight,
+    },
+    residuals,
+    limits,
+    exact: residuals.every((residual) => residual.distance <= TRANSFER_TOLERANCE),
+  }
+}
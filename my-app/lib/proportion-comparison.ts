@@ -0,0 +1,66 @@
+import type { BikeData, RiderProportionPreset, RiderSetup } from '@/types/bike'
+import { calculateBikeGeometry, resolveRiderSegments } from '@/lib/bike-geometry'
+import type { FitMetric, FitMetricId } from '@/lib/metric-ratings'
+import { evaluateFit } from '@/lib/fit-evaluation'
+import { applyRiderProportionPreset, RIDER_PROPORTION_PRESET_IDS } from '@/lib/rider-proportions'
+import { RACE_THRESHOLDS, type FitThresholds } from '@/lib/threshold-profiles'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Kennzahlen, die sich mit den Körperproportionen spürbar ändern. */
+export const PROPORTION_COMPARISON_METRICS: readonly FitMetricId[] = [
+  'kneeAngleAt90',
+  'kneeAngleAt270',
+  'shoulderAngle',
+  'elbowAngle',
+]
+
+export type ProportionComparisonRow = {
+  preset: RiderProportionPreset
+  rider: RiderSetup // Fahrer mit übernommenem Preset
+  thighLength: number // abgeleitete bzw. gemessene Oberschenkellänge (mm)
+  metrics: FitMetric[]
+}
+
+export type ProportionComparison = {
+  current: FitMetric[] // aktueller Fahrer (inkl. gemessener Segmente)
+  currentThighLength: number
+  rows: ProportionComparisonRow[]
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// VERGLEICH
+// ════════════════════════════════════════════════════════════════════════════
+
+function rateComparisonMetrics(bike: BikeData, thresholds: FitThresholds): FitMetric[] {
+  return evaluateFit(calculateBikeGeometry(bike), thresholds).filter((metric) =>
+    PROPORTION_COMPARISON_METRICS.includes(metric.id)
+  )
+}
+
+/**
+ * Rechnet dasselbe Bike/Cockpit mit jedem Proportionen-Preset durch und
+ * bewertet gegen das übergebene Schwellen-Profil. Alle gemessenen Werte
+ * bleiben, das Preset ändert nur die abgeleiteten Segmente (siehe
+ * `applyRiderProportionPreset`).
+ */
+export function compareRiderProportionPresets(
+  bike: BikeData,
+  thresholds: FitThresholds = RACE_THRESHOLDS
+): ProportionComparison {
+  return {
+    current: rateComparisonMetrics(bike, thresholds),
+    currentThighLength: resolveRiderSegments(bike.rider).thigh,
+    rows: RIDER_PROPORTION_PRESET_IDS.map((preset) => {
+      const rider = applyRiderProportionPreset(bike.rider, preset)
+      return {
+        preset,
+        rider,
+        thighLength: resolveRiderSegments(rider).thigh,
+        metrics: rateComparisonMetrics({ ...bike, rider }, thresholds),
+      }
+    }),
+  }
+}
@@ -0,0 +1,79 @@
+import type { RiderProportionPreset, RiderSetup } from '@/types/bike'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Segment-Verhältnisse, aus denen `calculateBikeGeometry` fehlende Längen ableitet. */
+export type RiderProportions = {
+  thigh: number // Oberschenkel: Anteil der anatomischen Beinlänge (Rest = Unterschenkel)
+  head: number // Kopfhöhe: Anteil der Körpergröße
+  neck: number // Halslänge: Anteil der Körpergröße
+  upperArm: number // Oberarm: Anteil der Körpergröße
+  forearm: number // Unterarm: Anteil der Körpergröße
+}
+
+export type RiderProportionPresetInfo = {
+  label: string
+  description: string
+  proportions: RiderProportions
+}
+
+export const DEFAULT_RIDER_PROPORTION_PRESET: RiderProportionPreset = 'standard'
+
+/**
+ * Vorlagen, angelehnt an gerundete Mittelwerte gängiger Anthropometrie-Tabellen.
+ * 'standard' entspricht den bisherigen festen Verhältnissen des Modells.
+ */
+export const RIDER_PROPORTION_PRESETS: Record<RiderProportionPreset, RiderProportionPresetInfo> = {
+  standard: {
+    label: 'Standard',
+    description: 'Bisherige Modell-Proportionen',
+    proportions: { thigh: 0.56, head: 0.12, neck: 0.055, upperArm: 0.186, forearm: 0.146 },
+  },
+  maleAverage: {
+    label: 'Mann (Durchschnitt)',
+    description: 'Mittelwerte Männer',
+    proportions: { thigh: 0.56, head: 0.12, neck: 0.055, upperArm: 0.188, forearm: 0.148 },
+  },
+  femaleAverage: {
+    label: 'Frau (Durchschnitt)',
+    description: 'Mittelwerte Frauen: kürzere Arme, etwas größerer Kopf',
+    proportions: { thigh: 0.56, head: 0.125, neck: 0.055, upperArm: 0.181, forearm: 0.139 },
+  },
+  longLegs: {
+    label: 'Langer Oberschenkel',
+    description: 'Oberschenkel länger, Unterschenkel kürzer (Schrittlänge bleibt)',
+    proportions: { thigh: 0.57, head: 0.12, neck: 0.055, upperArm: 0.186, forearm: 0.146 },
+  },
+  shortLegs: {
+    label: 'Kurzer Oberschenkel',
+    description: 'Oberschenkel kürzer, Unterschenkel länger (Schrittlänge bleibt)',
+    proportions: { thigh: 0.55, head: 0.12, neck: 0.055, upperArm: 0.186, forearm: 0.146 },
+  },
+  longArms: {
+    label: 'Lange Arme',
+    description: 'Ober- und Unterarm je ca. 5 % länger',
+    proportions: { thigh: 0.56, head: 0.12, neck: 0.055, upperArm: 0.196, forearm: 0.154 },
+  },
+}
+
+export const RIDER_PROPORTION_PRESET_IDS = Object.keys(RIDER_PROPORTION_PRESETS) as RiderProportionPreset[]
+
+// ════════════════════════════════════════════════════════════════════════════
+// FUNCTIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Verhältnisse eines Presets (fehlend = Standard). */
+export function getRiderProportions(preset: RiderProportionPreset | undefined): RiderProportions {
+  return RIDER_PROPORTION_PRESETS[preset ?? DEFAULT_RIDER_PROPORTION_PRESET].proportions
+}
+
+/**
+ * Übernimmt ein Preset für den Fahrer. Gemessene Werte (Schrittlänge,
+ * Segmente) bleiben erhalten; das Preset bestimmt nur die Verhältnisse, aus
+ * denen die nicht gemessenen Segmente abgeleitet werden.
+ */
+export function applyRiderProportionPreset(rider: RiderSetup, preset: RiderProportionPreset): RiderSetup {
+  return { ...rider, proportionPreset: preset }
+}
@@ -0,0 +1,138 @@
+import type { BikeData } from '@/types/bike'
+import {
+  calculateBikeGeometry,
+  calculateKneeAngleAtPedalAngle,
+  HIP_JOINT_OFFSET_RATIO,
+  resolveFootModel,
+  resolveRiderSegments,
+  SCALE,
+  type Point2D,
+} from '@/lib/bike-geometry'
+import { COCKPIT_LIMITS } from '@/lib/defaults'
+import type { FitThresholds } from '@/lib/threshold-profiles'
+import { KNEE_90_MIN_WARNING, KNEE_90_MAX_WARNING } from '@/lib/warning-thresholds'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Ziel-Kniewinkel bei 90° (Pedal unten): fester Wert oder Bereich. */
+export type KneeAngleTarget = number | { min: number; max: number }
+
+/** Standardziel: optimaler (grüner) Bereich aus `warning-thresholds.ts`. */
+export const DEFAULT_KNEE_ANGLE_TARGET = {
+  min: KNEE_90_MIN_WARNING,
+  max: KNEE_90_MAX_WARNING,
+} as const satisfies KneeAngleTarget
+
+/** Zielbereich aus dem optimalen (grünen) Kniewinkel eines Schwellen-Profils. */
+export function kneeAngleTargetFor(thresholds: FitThresholds): { min: number; max: number } {
+  return { min: thresholds.knee90MinWarning, max: thresholds.knee90MaxWarning }
+}
+
+export type SaddleHeightSolution = {
+  seatPostLength: number // empfohlener Auszug (mm, auf 1 mm gerundet)
+  seatPostRange: { min: number; max: number } | null // Auszug für den Zielbereich (nur bei Bereichsziel)
+  kneeAngleAt90: number // Kniewinkel mit empfohlenem Auszug
+  saddleHeight: number // Tretlager → Sattel-Mittelpunkt (mm)
+  reachable: boolean // false: Ziel liegt außerhalb von COCKPIT_LIMITS.seatPostLength oder wird um mehr als 0,5° verfehlt
+}
+
+const SOLVER_ITERATIONS = 40
+
+/** Maximale Abweichung (Grad) des nachgerechneten Kniewinkels vom Ziel. */
+const KNEE_ANGLE_TOLERANCE = 0.5
+
+// ════════════════════════════════════════════════════════════════════════════
+// SOLVER
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Liefert den Kniewinkel bei 90° als Funktion des Sattelstützen-Auszugs.
+ * Der Sattel wandert dabei entlang der Sitzrohrachse; alle übrigen Werte
+ * (Rahmen, Kurbel, Schuhdicke, Fahrer) bleiben wie in `bike`.
+ *
+ * Mit Ziel-Ellbogenwinkel hängt der gelöste Oberkörperwinkel – und damit das
+ * Hüftgelenk – von der Sattelhöhe ab; dann wird je Auszug die volle Geometrie
+ * berechnet.
+ */
+export function createKneeAngleFunction(bike: BikeData): (seatPostLength: number) => number {
+  if (bike.rider.targetElbowAngle !== undefined) {
+    return (seatPostLength) =>
+      calculateBikeGeometry({ ...bike, cockpit: { ...bike.cockpit, seatPostLength } }).kneeAngleAt90 ?? 0
+  }
+
+  const { points } = calculateBikeGeometry(bike)
+  const seatTubeAngleRad = (bike.geometry.seatTubeAngle * Math.PI) / 180
+  const hipJointOffset = bike.rider.riderInseam * HIP_JOINT_OFFSET_RATIO * SCALE
+  const torsoAngleRad = (bike.rider.torsoAngle * Math.PI) / 180
+  const segments = resolveRiderSegments(bike.rider)
+  const foot = resolveFootModel(bike)
+
+  return (seatPostLength) => {
+    const delta = (seatPostLength - bike.cockpit.seatPostLength) * SCALE
+    const saddleTop: Point2D = {
+      x: points.saddleTop.x - Math.cos(seatTubeAngleRad) * delta,
+      y: points.saddleTop.y - Math.sin(seatTubeAngleRad) * delta,
+    }
+    return calculateKneeAngleAtPedalAngle(
+      90,
+      bike.cockpit.crankLength,
+      saddleTop,
+      points.bb,
+      segments,
+      foot,
+      bike.rider.shoeThickness,
+      hipJointOffset,
+      torsoAngleRad
+    )
+  }
+}
+
+/** Bisektion: Kniewinkel steigt mit dem Auszug (bis zum gestreckten Bein). */
+function solveForAngle(kneeAngle: (length: number) => number, target: number) {
+  let { min: low, max: high } = COCKPIT_LIMITS.seatPostLength
+  if (kneeAngle(low) >= target) return { length: low, reachable: kneeAngle(low) === target }
+  if (kneeAngle(high) <= target) return { length: high, reachable: kneeAngle(high) === target }
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (low + high) / 2
+    if (kneeAngle(mid) < target) low = mid
+    else high = mid
+  }
+  return { length: (low + high) / 2, reachable: true }
+}
+
+/**
+ * Berechnet den Sattelstützen-Auszug für einen Ziel-Kniewinkel bei 90°.
+ * Bei einem Bereich wird die Mitte empfohlen und zusätzlich der Auszug-Bereich
+ * angegeben, in dem der Kniewinkel im Ziel liegt.
+ */
+export function solveSeatPostForKneeAngle(
+  bike: BikeData,
+  target: KneeAngleTarget = DEFAULT_KNEE_ANGLE_TARGET
+): SaddleHeightSolution {
+  const kneeAngle = createKneeAngleFunction(bike)
+  const range = typeof target === 'number' ? null : target
+  const center = range ? (range.min + range.max) / 2 : (target as number)
+
+  const recommended = solveForAngle(kneeAngle, center)
+  const seatPostLength = Math.round(recommended.length)
+  // Gegenprobe mit der vollen Geometrie: trifft der gerundete Auszug das Ziel?
+  const { bbToSaddleDistance, kneeAngleAt90 = kneeAngle(seatPostLength) } = calculateBikeGeometry({
+    ...bike,
+    cockpit: { ...bike.cockpit, seatPostLength },
+  })
+
+  return {
+    seatPostLength,
+    seatPostRange: range
+      ? {
+          min: Math.ceil(solveForAngle(kneeAngle, range.min).length),
+          max: Math.floor(solveForAngle(kneeAngle, range.max).length),
+        }
+      : null,
+    kneeAngleAt90,
+    saddleHeight: bbToSaddleDistance ?? 0,
+    reachable: recommended.reachable && Math.abs(kneeAngleAt90 - center) <= KNEE_ANGLE_TOLERANCE,
+  }
+}
@@ -0,0 +1,191 @@
+import type { BikeData } from '@/types/bike'
+import { calculateBikeGeometry, resolveRiderMeasurements, type BikeGeometryResult } from '@/lib/bike-geometry'
+import { DEFAULT_COCKPIT } from '@/lib/defaults'
+import { evaluateFit, getOutOfRangeFindings, type FitFinding } from '@/lib/fit-evaluation'
+import type { FitMetricId } from '@/lib/metric-ratings'
+import {
+  COCKPIT_FIELD_INFO,
+  RIDER_FIELD_INFO,
+  type NumericCockpitField,
+  type NumericRiderField,
+  type SetupFieldInfo,
+} from '@/lib/setup-fields'
+import { RACE_THRESHOLDS, type FitThresholds } from '@/lib/threshold-profiles'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Numerische Kennzahlen aus `BikeGeometryResult`. */
+export type SensitivityMetricKey =
+  | FitMetricId
+  | 'kneeAngle'
+  | 'ankleAngle'
+  | 'hipAngle'
+  | 'hipAngleAt270'
+  | 'hipAngleMax'
+  | 'torsoAngle'
+  | 'bbToSaddleDistance'
+  | 'bbToSeatPostDistance'
+
+export type SensitivityMetric = {
+  key: SensitivityMetricKey
+  label: string
+  unit: 'mm' | '°'
+  value: number | null // aktueller Wert, null wenn nicht berechnet
+  finding: FitFinding | null // Bewertung, falls die Kennzahl geprüft wird
+}
+
+export type SensitivityParameter =
+  | (SetupFieldInfo<NumericCockpitField> & { group: 'cockpit'; base: number; delta: number })
+  | (SetupFieldInfo<NumericRiderField> & { group: 'rider'; base: number; delta: number })
+
+/** Einfluss eines Parameters auf ein gelbes/rotes Finding. */
+export type SensitivityDriver = {
+  parameter: SensitivityParameter
+  effect: number // Änderung der Kennzahl je `parameter.delta`
+  direction: 1 | -1 // Richtung des Parameters, die das Finding verbessert
+}
+
+export type DominantDrivers = {
+  finding: FitFinding
+  drivers: SensitivityDriver[] // nach |Effekt| absteigend
+}
+
+export type SensitivityAnalysis = {
+  parameters: SensitivityParameter[]
+  metrics: SensitivityMetric[]
+  /** effects[p][m]: Änderung von Kennzahl m je `delta` von Parameter p; null = nicht berechenbar. */
+  effects: (number | null)[][]
+  dominant: DominantDrivers[]
+}
+
+/** Kennzahlen in Anzeige-Reihenfolge: erst die bewerteten, dann die übrigen. */
+const METRICS: readonly Omit<SensitivityMetric, 'value' | 'finding'>[] = [
+  { key: 'kneeAngleAt90', label: 'Knie unten (90°)', unit: '°' },
+  { key: 'kneeAngleAt270', label: 'Knie oben (270°)', unit: '°' },
+  { key: 'kneeTopedalXAt0', label: 'Knie über Pedal (0°)', unit: 'mm' },
+  { key: 'shoulderAngle', label: 'Schulter', unit: '°' },
+  { key: 'elbowAngle', label: 'Ellbogen', unit: '°' },
+  { key: 'ankleAngleAt270', label: 'Sprunggelenk (270°)', unit: '°' },
+  { key: 'hipAngleMin', label: 'Hüfte min.', unit: '°' },
+  { key: 'saddleHandlebarDrop', label: 'Überhöhung', unit: 'mm' },
+  { key: 'hipAngleMax', label: 'Hüfte max.', unit: '°' },
+  { key: 'hipAngleAt270', label: 'Hüfte (270°)', unit: '°' },
+  { key: 'torsoAngle', label: 'Oberkörper', unit: '°' },
+  { key: 'kneeAngle', label: 'Knie aktuell', unit: '°' },
+  { key: 'ankleAngle', label: 'Sprunggelenk aktuell', unit: '°' },
+  { key: 'hipAngle', label: 'Hüfte aktuell', unit: '°' },
+  { key: 'bbToSaddleDistance', label: 'Tretlager–Sattel', unit: 'mm' },
+  { key: 'bbToSeatPostDistance', label: 'Tretlager–Stütze', unit: 'mm' },
+]
+
+/**
+ * Bezugsschritt je Einheit: Effekte werden als Änderung je 5 mm bzw. 1°
+ * angegeben („Was bringen 5 mm Sattelstütze?“).
+ */
+export const SENSITIVITY_DELTA = { mm: 5, '°': 1 } as const
+
+/** Anzahl der Parameter, die je gelbem/rotem Finding hervorgehoben werden. */
+const DOMINANT_COUNT = 3
+
+/** Effekte darunter gelten als kein Einfluss (Rundungsrauschen). */
+const EFFECT_EPSILON = 1e-3
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER
+// ════════════════════════════════════════════════════════════════════════════
+
+function metricValue(result: BikeGeometryResult, key: SensitivityMetricKey): number | null {
+  const value = result[key]
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+/**
+ * Variierbare Parameter mit Ausgangswert. Nicht gemessene Körpermaße starten
+ * beim aus den Proportionen abgeleiteten Wert; der Ziel-Ellbogenwinkel nur,
+ * wenn er gesetzt ist (sonst gilt der Oberkörperwinkel).
+ */
+function collectParameters(bike: BikeData): SensitivityParameter[] {
+  const measurements = resolveRiderMeasurements(bike.rider)
+  const cockpit = COCKPIT_FIELD_INFO.map((info) => ({
+    ...info,
+    group: 'cockpit' as const,
+    base: bike.cockpit[info.key] ?? DEFAULT_COCKPIT[info.key] ?? 0,
+    delta: SENSITIVITY_DELTA[info.unit],
+  }))
+  const rider = RIDER_FIELD_INFO.flatMap((info) => {
+    const base = info.key === 'targetElbowAngle'
+      ? bike.rider.targetElbowAngle
+      : info.key in measurements
+        ? bike.rider[info.key] ?? measurements[info.key as keyof typeof measurements]
+        : bike.rider[info.key]
+    if (base === undefined) return []
+    return [{ ...info, group: 'rider' as const, base, delta: SENSITIVITY_DELTA[info.unit] }]
+  })
+  return [...cockpit, ...rider]
+}
+
+function withParameter(bike: BikeData, parameter: SensitivityParameter, value: number): BikeData {
+  return parameter.group === 'cockpit'
+    ? { ...bike, cockpit: { ...bike.cockpit, [parameter.key]: value } }
+    : { ...bike, rider: { ...bike.rider, [parameter.key]: value } }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ANALYSE
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sensitivität aller Kennzahlen gegenüber jedem Cockpit- und Fahrer-Wert.
+ *
+ * Zentraler Differenzenquotient um den aktuellen Wert: Effekt =
+ * f(x + δ/2) − f(x − δ/2) mit δ = 5 mm bzw. 1°. Für jedes gelbe/rote Finding
+ * werden die Parameter mit dem größten Effekt samt Verbesserungsrichtung
+ * geliefert – mm- und °-Parameter sind dabei über den Bezugsschritt
+ * vergleichbar gemacht, nicht physikalisch gleichwertig.
+ */
+export function analyzeSensitivity(bike: BikeData, thresholds: FitThresholds = RACE_THRESHOLDS): SensitivityAnalysis {
+  const result = calculateBikeGeometry(bike)
+  const findings = evaluateFit(result, thresholds)
+  const metrics = METRICS.map((metric) => ({
+    ...metric,
+    value: metricValue(result, metric.key),
+    finding: findings.find((finding) => finding.id === metric.key) ?? null,
+  }))
+
+  const parameters = collectParameters(bike)
+  const effects = parameters.map((parameter) => {
+    const lower = calculateBikeGeometry(withParameter(bike, parameter, parameter.base - parameter.delta / 2))
+    const upper = calculateBikeGeometry(withParameter(bike, parameter, parameter.base + parameter.delta / 2))
+    return metrics.map(({ key }) => {
+      const a = metricValue(lower, key)
+      const b = metricValue(upper, key)
+      if (a === null || b === null) return null
+      return Math.abs(b - a) < EFFECT_EPSILON ? 0 : b - a
+    })
+  })
+
+  const dominant = getOutOfRangeFindings(findings).flatMap((finding) => {
+    const column = metrics.findIndex((metric) => metric.key === finding.id)
+    if (column < 0) return []
+    const wanted = finding.adjustment?.direction ?? (finding.band === 'tooLow' || finding.band === 'low' ? 'increase' : 'decrease')
+    const drivers = parameters
+      .flatMap((parameter, row) => {
+        const effect = effects[row][column]
+        if (effect === null || effect === 0) return []
+        const direction: 1 | -1 = (effect > 0) === (wanted === 'increase') ? 1 : -1
+        return [{ parameter, effect, direction }]
+      })
+      .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect))
+      .slice(0, DOMINANT_COUNT)
+    return [{ finding, drivers }]
+  })
+
+  return { parameters, metrics, effects, dominant }
+}
+
+/** Schlüssel eines Parameters, eindeutig über Cockpit und Fahrer. */
+export function parameterId(parameter: SensitivityParameter): string {
+  return `${parameter.group}.${parameter.key}`
+}
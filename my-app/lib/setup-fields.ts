@@ -0,0 +1,65 @@
+import type { CockpitSetup, RiderSetup } from '@/types/bike'
+
+/** Anzeige-Metadaten für ein numerisches Setup-Feld (Label + Einheit). */
+export type SetupFieldInfo<K extends string> = {
+  key: K
+  label: string
+  unit: 'mm' | '°'
+}
+
+export type NumericCockpitField = Exclude<keyof CockpitSetup, 'handPosition'>
+
+/** Numerische Cockpit-Felder in Anzeige-Reihenfolge (wie in der BikeSelector-Sidebar). */
+export const COCKPIT_FIELD_INFO: readonly SetupFieldInfo<NumericCockpitField>[] = [
+  { key: 'stemLength',     label: 'Vorbaulänge',   unit: 'mm' },
+  { key: 'stemAngle',      label: 'Vorbauwinkel',  unit: '°' },
+  { key: 'spacerHeight',   label: 'Spacer',        unit: 'mm' },
+  { key: 'headsetCap',     label: 'Top Cap',       unit: 'mm' },
+  { key: 'handlebarReach', label: 'Lenker Reach',  unit: 'mm' },
+  { key: 'handlebarDrop',  label: 'Lenker Drop',   unit: 'mm' },
+  { key: 'seatPostLength', label: 'Sattelstütze',  unit: 'mm' },
+  { key: 'saddleSetback',  label: 'Setback',       unit: 'mm' },
+  { key: 'saddleLength',   label: 'Sattellänge',   unit: 'mm' },
+  { key: 'sitboneOffset',  label: 'Sitzposition',  unit: 'mm' },
+  { key: 'crankLength',    label: 'Kurbellänge',   unit: 'mm' },
+  { key: 'pedalAngle',     label: 'Pedalwinkel',   unit: '°' },
+  { key: 'cleatOffset',    label: 'Cleat-Versatz', unit: 'mm' },
+]
+
+export type NumericRiderField = Exclude<keyof RiderSetup, 'proportionPreset' | 'anklingProfile' | 'anklingKeyframes'>
+
+/** Optional gemessene Segmentlängen (leer = aus Körperproportionen). */
+export type RiderSegmentField =
+  | 'thighLength'
+  | 'shankLength'
+  | 'footLength'
+  | 'torsoLength'
+  | 'upperArmLength'
+  | 'forearmLength'
+  | 'shoulderHeight'
+
+/** Segment-Felder in Anzeige-Reihenfolge (wie in der BikeSelector-Sidebar). */
+export const RIDER_SEGMENT_FIELD_INFO: readonly SetupFieldInfo<RiderSegmentField>[] = [
+  { key: 'thighLength',    label: 'Oberschenkel',  unit: 'mm' },
+  { key: 'shankLength',    label: 'Unterschenkel', unit: 'mm' },
+  { key: 'footLength',     label: 'Fußlänge',      unit: 'mm' },
+  { key: 'torsoLength',    label: 'Oberkörper',    unit: 'mm' },
+  { key: 'upperArmLength', label: 'Oberarm',       unit: 'mm' },
+  { key: 'forearmLength',  label: 'Unterarm',      unit: 'mm' },
+  { key: 'shoulderHeight', label: 'Schulterhöhe',  unit: 'mm' },
+]
+
+/** Fahrer-Felder in Anzeige-Reihenfolge. */
+export const RIDER_FIELD_INFO: readonly SetupFieldInfo<NumericRiderField>[] = [
+  { key: 'riderHeight',   label: 'Körpergröße',  unit: 'mm' },
+  { key: 'riderInseam',   label: 'Schrittlänge', unit: 'mm' },
+  { key: 'torsoAngle',    label: 'Rückenwinkel', unit: '°' },
+  { key: 'shoeThickness', label: 'Schuhdicke',   unit: 'mm' },
+  { key: 'targetElbowAngle', label: 'Ziel-Ellbogenwinkel', unit: '°' },
+  ...RIDER_SEGMENT_FIELD_INFO,
+]
+
+export const HAND_POSITION_LABELS: Record<CockpitSetup['handPosition'], string> = {
+  hoods: 'Hoods',
+  drops: 'Drops',
+}
@@ -0,0 +1,269 @@
+import { z } from 'zod'
+import type { AvailableBikesMap, BikeData, CockpitSetup, RiderSetup } from '@/types/bike'
+import { cockpitSetupSchema, riderSetupSchema } from '@/lib/bikes-schema'
+import { clampCockpitSetup } from '@/lib/defaults'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Aktuelle Version des Link-Formats. Bei inkompatiblen Änderungen erhöhen. */
+export const SHARE_STATE_VERSION = 1
+
+/** Hash-Parameter, in dem der A/B-Vergleich abgelegt wird (`#fit=1.…`). */
+export const SHARE_HASH_KEY = 'fit'
+
+/**
+ * Reihenfolge der numerischen Cockpit-Felder im Link.
+ * Neue (optionale) Felder nur hinten anhängen, damit alte Links gültig bleiben.
+ */
+const COCKPIT_FIELDS = [
+  'spacerHeight',
+  'headsetCap',
+  'stemLength',
+  'stemAngle',
+  'handlebarReach',
+  'handlebarDrop',
+  'crankLength',
+  'pedalAngle',
+  'seatPostLength',
+  'saddleSetback',
+  'saddleLength',
+  'sitboneOffset',
+  'cleatOffset',
+] as const satisfies readonly Exclude<keyof CockpitSetup, 'handPosition'>[]
+
+/** Reihenfolge der Fahrer-Felder im Link (ebenfalls nur hinten erweitern). */
+const RIDER_FIELDS = [
+  'riderHeight',
+  'riderInseam',
+  'torsoAngle',
+  'shoeThickness',
+  'thighLength',
+  'shankLength',
+  'footLength',
+  'torsoLength',
+  'upperArmLength',
+  'forearmLength',
+  'shoulderHeight',
+  'targetElbowAngle',
+] as const satisfies readonly (keyof RiderSetup)[]
+
+/** Nicht-numerische Fahrer-Felder, als eigene Tupel-Elemente hinter den Fahrer-Werten. */
+const RIDER_EXTRA_FIELDS = [
+  'proportionPreset',
+  'anklingProfile',
+  'anklingKeyframes',
+] as const satisfies readonly (keyof RiderSetup)[]
+
+/** Auswahl + Setup eines Bikes, wie es aus einem Link gelesen wurde. */
+export type SharedBike = {
+  brand: string
+  model: string
+  size: string
+  cockpit: CockpitSetup
+  rider: RiderSetup
+}
+
+/** Kompletter geteilter Zustand: Bike A und optional Bike B. */
+export type SharedFitState = {
+  a: SharedBike
+  b: SharedBike | null
+}
+
+/** Ergebnis der Auflösung eines geteilten Bikes gegen den aktuellen Datensatz. */
+export type ResolvedSharedBike = {
+  bike: BikeData
+  exact: boolean // false = Bike existiert nicht mehr, Ersatz wurde gewählt
+}
+
+/**
+ * Kompakte Tupel-Form eines Bikes: [Marke, Modell, Größe, Griff, Cockpit, Fahrer,
+ * ...Fahrer-Extras]. Extras folgen `RIDER_EXTRA_FIELDS` und werden einzeln geprüft.
+ */
+const encodedBikeSchema = z
+  .tuple([
+    z.string(),
+    z.string(),
+    z.string(),
+    z.enum(['h', 'd']),
+    z.array(z.number().nullable()),
+    z.array(z.number().nullable()),
+  ])
+  .rest(z.unknown())
+
+const sharePayloadSchema = z.object({
+  a: encodedBikeSchema,
+  b: encodedBikeSchema.optional(),
+})
+
+type EncodedBike = z.infer<typeof encodedBikeSchema>
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** UTF-8-sicheres Base64url (ohne Padding), damit Markennamen mit Umlauten funktionieren. */
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  const binary = atob(padded)
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)))
+}
+
+/** Rundet auf eine Nachkommastelle, damit der Link kurz bleibt. */
+function roundForLink(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+/** Baut aus Feldliste + Werte-Array ein Objekt; fehlende Werte (null) entfallen. */
+function fieldsToObject(
+  fields: readonly string[],
+  values: readonly (number | null)[]
+): Record<string, number> {
+  const result: Record<string, number> = {}
+  fields.forEach((field, i) => {
+    const value = values[i]
+    if (typeof value === 'number') result[field] = value
+  })
+  return result
+}
+
+function trimTrailingNulls<T>(values: readonly (T | null)[]): (T | null)[] {
+  const result = [...values]
+  while (result.length > 0 && result[result.length - 1] === null) result.pop()
+  return result
+}
+
+/** Liest die Fahrer-Extras; unbekannte Werte (neuere Version) entfallen → Standard. */
+function riderExtrasToObject(values: readonly unknown[]): Partial<RiderSetup> {
+  const result: Record<string, unknown> = {}
+  RIDER_EXTRA_FIELDS.forEach((field, i) => {
+    const parsed = riderSetupSchema.shape[field].safeParse(values[i])
+    if (parsed.success && parsed.data !== undefined) result[field] = parsed.data
+  })
+  return result
+}
+
+function encodeBike(bike: BikeData): EncodedBike {
+  return [
+    bike.brand,
+    bike.model,
+    bike.size,
+    bike.cockpit.handPosition === 'drops' ? 'd' : 'h',
+    COCKPIT_FIELDS.map((field) => {
+      const value = bike.cockpit[field]
+      return typeof value === 'number' ? roundForLink(value) : null
+    }),
+    RIDER_FIELDS.map((field) => {
+      const value = bike.rider[field]
+      return typeof value === 'number' ? roundForLink(value) : null
+    }),
+    ...trimTrailingNulls(RIDER_EXTRA_FIELDS.map((field) => bike.rider[field] ?? null)),
+  ]
+}
+
+function decodeBike(encoded: EncodedBike): SharedBike | null {
+  const [brand, model, size, hand, cockpitValues, riderValues, ...riderExtras] = encoded
+  const cockpit = cockpitSetupSchema.safeParse({
+    ...fieldsToObject(COCKPIT_FIELDS, cockpitValues),
+    handPosition: hand === 'd' ? 'drops' : 'hoods',
+  })
+  const rider = riderSetupSchema.safeParse({
+    ...fieldsToObject(RIDER_FIELDS, riderValues),
+    ...riderExtrasToObject(riderExtras),
+  })
+  if (!cockpit.success || !rider.success) return null
+  return {
+    brand,
+    model,
+    size,
+    cockpit: clampCockpitSetup(cockpit.data),
+    rider: rider.data,
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ENCODE / DECODE
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Kodiert den A/B-Vergleich als `<version>.<base64url>`. */
+export function encodeShareState(bikeA: BikeData, bikeB: BikeData | null): string {
+  const payload = {
+    a: encodeBike(bikeA),
+    ...(bikeB ? { b: encodeBike(bikeB) } : {}),
+  }
+  return `${SHARE_STATE_VERSION}.${toBase64Url(JSON.stringify(payload))}`
+}
+
+/**
+ * Dekodiert einen mit `encodeShareState` erzeugten Wert.
+ * Unbekannte Versionen oder ungültige Daten ergeben null.
+ */
+export function decodeShareState(value: string): SharedFitState | null {
+  const [version, data] = value.split('.')
+  if (Number(version) !== SHARE_STATE_VERSION || !data) return null
+
+  let json: unknown
+  try {
+    json = JSON.parse(fromBase64Url(data))
+  } catch {
+    return null
+  }
+
+  const parsed = sharePayloadSchema.safeParse(json)
+  if (!parsed.success) return null
+
+  const a = decodeBike(parsed.data.a)
+  if (!a) return null
+  const b = parsed.data.b ? decodeBike(parsed.data.b) : null
+  return { a, b }
+}
+
+/** Erzeugt den URL-Hash (inkl. `#`) für den aktuellen Vergleich. */
+export function buildShareHash(bikeA: BikeData, bikeB: BikeData | null): string {
+  return `#${SHARE_HASH_KEY}=${encodeShareState(bikeA, bikeB)}`
+}
+
+/** Liest den geteilten Zustand aus einem URL-Hash (`location.hash`). */
+export function readShareHash(hash: string): SharedFitState | null {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_KEY)
+  return value ? decodeShareState(value) : null
+}
+
+/**
+ * Sucht die Geometrie zu einem geteilten Bike im aktuellen Datensatz.
+ * Fehlt die Größe, wird die erste Größe desselben Modells verwendet, fehlt das
+ * Modell, das Fallback-Bike. Cockpit und Fahrer bleiben in jedem Fall erhalten.
+ */
+export function resolveSharedBike(
+  shared: SharedBike,
+  availableBikes: AvailableBikesMap,
+  fallback: BikeData | null
+): ResolvedSharedBike | null {
+  const sizes = availableBikes[shared.brand]?.[shared.model]
+  const geometry = sizes?.[shared.size]
+  if (geometry) {
+    return { bike: { ...shared, geometry }, exact: true }
+  }
+
+  const firstSize = sizes ? Object.keys(sizes)[0] : undefined
+  if (sizes && firstSize) {
+    return { bike: { ...shared, size: firstSize, geometry: sizes[firstSize] }, exact: false }
+  }
+
+  if (!fallback) return null
+  return {
+    bike: { ...fallback, cockpit: shared.cockpit, rider: shared.rider },
+    exact: false,
+  }
+}
@@ -0,0 +1,175 @@
+import {
+  KEY_POINT_IDS,
+  SCALE,
+  WHEEL_POINT_IDS,
+  type BikeGeometryResult,
+} from '@/lib/bike-geometry'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Farben der Vergleichs-Bikes wie in `BikeVisualization`. */
+export const BIKE_COLORS = { A: '#e74c3c', B: '#3498db' } as const
+
+const RIDER_COLOR = '#22c55e'
+
+/** Fahrer-Punkte, die nur bei sichtbarem Fahrer gezeichnet werden. */
+const RIDER_POINT_IDS = ['kneeNew', 'footContact', 'cleatTop', 'cleatBottom', 'hip', 'hipJoint', 'shoulder', 'neckTop', 'headCenter', 'elbow']
+
+export type SideViewLayer = {
+  result: BikeGeometryResult
+  color: string
+}
+
+/** Messlinie zwischen zwei Punkten (SVG-Koordinaten) mit Beschriftung in mm. */
+export type SideViewMeasureLine = {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  distance: number
+  dx: number
+  dy: number
+}
+
+export type SideViewLegendEntry = {
+  label: string
+  color: string
+}
+
+export type SideViewOptions = {
+  showRider?: boolean
+  background?: string // z.B. '#ffffff'; ohne Angabe transparent
+  measureLine?: SideViewMeasureLine | null
+  legend?: SideViewLegendEntry[] // wird unterhalb der Zeichnung angefügt
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// RENDERING
+// ════════════════════════════════════════════════════════════════════════════
+
+const f = (value: number) => Number(value.toFixed(2))
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/** ViewBox über alle Punkte (+50 Rand), wie in `BikeVisualization`. */
+export function getSideViewBounds(layers: SideViewLayer[]) {
+  const points = layers.flatMap(({ result }) => Object.values(result.points))
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const minX = Math.min(...xs) - 50
+  const minY = Math.min(...ys) - 50
+  return {
+    minX,
+    minY,
+    width: Math.max(...xs) + 50 - minX,
+    height: Math.max(...ys) + 50 - minY,
+  }
+}
+
+function renderLayer({ result, color }: SideViewLayer, showRider: boolean): string {
+  const { points, segments, riderSegments } = result
+  const parts: string[] = []
+
+  const line = (from: string, to: string, stroke: string, width: number) => {
+    const a = points[from]
+    const b = points[to]
+    if (!a || !b) return
+    parts.push(`<line x1="${f(a.x)}" y1="${f(a.y)}" x2="${f(b.x)}" y2="${f(b.y)}" stroke="${stroke}" stroke-width="${width}"/>`)
+  }
+
+  segments.forEach(({ from, to }) => line(from, to, color, 2))
+
+  if (showRider) {
+    riderSegments?.forEach(({ from, to }) => line(from, to, RIDER_COLOR, 3))
+    const head = points.headCenter
+    if (head && points.neckTop) {
+      const headHeight = 1800 * 0.12 * SCALE
+      parts.push(
+        `<ellipse cx="${f(head.x)}" cy="${f(head.y)}" rx="${f(headHeight * 0.35)}" ry="${f(headHeight / 2)}" ` +
+        `fill="none" stroke="${RIDER_COLOR}" stroke-width="3" transform="rotate(210, ${f(head.x)}, ${f(head.y)})"/>`
+      )
+    }
+  }
+
+  // Räder: Außendurchmesser 690mm, Felge 622mm
+  WHEEL_POINT_IDS.forEach((id) => {
+    const p = points[id]
+    if (!p) return
+    parts.push(`<circle cx="${f(p.x)}" cy="${f(p.y)}" r="${f((690 / 2) * SCALE)}" stroke="${color}" stroke-width="2" fill="none"/>`)
+    parts.push(`<circle cx="${f(p.x)}" cy="${f(p.y)}" r="${f((622 / 2) * SCALE)}" stroke="${color}" stroke-width="1" fill="none" opacity="0.85"/>`)
+  })
+
+  KEY_POINT_IDS.forEach((id) => {
+    const p = points[id]
+    const isRiderPoint = RIDER_POINT_IDS.includes(id)
+    if (!p || (isRiderPoint && !showRider)) return
+    parts.push(`<circle cx="${f(p.x)}" cy="${f(p.y)}" r="4" fill="${isRiderPoint ? RIDER_COLOR : color}"/>`)
+  })
+
+  return `<g opacity="0.7">${parts.join('')}</g>`
+}
+
+/** Messlinie mit ΔX/ΔY-Hilfslinien, Farben wie im Messwerkzeug. */
+function renderMeasureLine({ x1, y1, x2, y2, distance, dx, dy }: SideViewMeasureLine): string {
+  const text = (x: number, y: number, color: string, size: number, content: string) =>
+    `<text x="${f(x)}" y="${f(y)}" fill="${color}" font-size="${size}" font-weight="bold" text-anchor="middle">${content}</text>`
+  return (
+    `<g font-family="'Segoe UI', Arial, sans-serif">` +
+    `<line x1="${f(x1)}" y1="${f(y1)}" x2="${f(x2)}" y2="${f(y2)}" stroke="#f39c12" stroke-width="2" stroke-dasharray="5,5"/>` +
+    text((x1 + x2) / 2, (y1 + y2) / 2 - 10, '#f39c12', 14, `${distance.toFixed(1)} mm`) +
+    `<line x1="${f(x1)}" y1="${f(y2)}" x2="${f(x2)}" y2="${f(y2)}" stroke="#3498db" stroke-width="1.5" stroke-dasharray="3,3"/>` +
+    text((x1 + x2) / 2, y2 + 20, '#3498db', 12, `ΔX: ${dx.toFixed(1)} mm`) +
+    `<line x1="${f(x1)}" y1="${f(y1)}" x2="${f(x1)}" y2="${f(y2)}" stroke="#e74c3c" stroke-width="1.5" stroke-dasharray="3,3"/>` +
+    text(x1 - 20, (y1 + y2) / 2, '#e74c3c', 12, `ΔY: ${dy.toFixed(1)} mm`) +
+    '</g>'
+  )
+}
+
+/** Legende als Zeile(n) mit Farbpunkt; liefert Markup und benötigte Höhe. */
+function renderLegend(entries: SideViewLegendEntry[], x: number, y: number, width: number) {
+  const fontSize = Math.max(14, width * 0.018)
+  const lineHeight = fontSize * 1.6
+  const markup = entries
+    .map(({ label, color }, i) => {
+      const cy = y + lineHeight * (i + 0.5)
+      return (
+        `<circle cx="${f(x + fontSize / 2)}" cy="${f(cy)}" r="${f(fontSize / 2.5)}" fill="${color}"/>` +
+        `<text x="${f(x + fontSize * 1.4)}" y="${f(cy)}" dominant-baseline="central" fill="#374151">${escapeXml(label)}</text>`
+      )
+    })
+    .join('')
+  return {
+    markup: `<g font-family="'Segoe UI', Arial, sans-serif" font-size="${f(fontSize)}">${markup}</g>`,
+    height: entries.length * lineHeight + fontSize,
+  }
+}
+
+/**
+ * Statische Seitenansicht als eigenständiges SVG-Markup (ohne Zoom/Pan).
+ * Zeichnet Rahmen, Cockpit, Räder und Fahrer wie `BikeVisualization`,
+ * optional mit Messlinie und Legende unterhalb der Zeichnung.
+ */
+export function renderSideViewSvg(layers: SideViewLayer[], options: SideViewOptions = {}): string {
+  const { showRider = true, background, measureLine, legend = [] } = options
+  if (layers.length === 0) return ''
+  const { minX, minY, width, height: drawingHeight } = getSideViewBounds(layers)
+  const legendBlock = legend.length > 0 ? renderLegend(legend, minX + 20, minY + drawingHeight, width) : null
+  const height = drawingHeight + (legendBlock?.height ?? 0)
+  const viewBox = [minX, minY, width, height].map(f).join(' ')
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="${f(width)}" height="${f(height)}">` +
+    (background ? `<rect x="${f(minX)}" y="${f(minY)}" width="${f(width)}" height="${f(height)}" fill="${background}"/>` : '') +
+    layers.map((layer) => renderLayer(layer, showRider)).join('') +
+    (measureLine ? renderMeasureLine(measureLine) : '') +
+    (legendBlock?.markup ?? '') +
+    '</svg>'
+  )
+}
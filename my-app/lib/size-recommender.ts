@@ -0,0 +1,151 @@
+import type { AvailableBikesMap, BikeData, BikeGeometry, CockpitSetup, RiderSetup } from '@/types/bike'
+import { calculateBikeGeometry } from '@/lib/bike-geometry'
+import { RATING_LABELS, type FitMetric, type MetricRating } from '@/lib/metric-ratings'
+import { evaluateFit } from '@/lib/fit-evaluation'
+import { kneeAngleTargetFor, solveSeatPostForKneeAngle } from '@/lib/saddle-height-solver'
+import { listCustomBikes } from '@/lib/custom-bikes'
+import { RACE_THRESHOLDS, type FitThresholds } from '@/lib/threshold-profiles'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export type SizeRecommendation = {
+  brand: string
+  model: string
+  size: string
+  geometry: BikeGeometry
+  cockpit: CockpitSetup // bestes gefundenes Cockpit für diese Größe
+  metrics: FitMetric[]
+  greenCount: number
+  adjustment: number // Anpassungsaufwand gegenüber dem Ausgangs-Cockpit (Punkte)
+  score: number
+  reasons: string[]
+}
+
+export type SizeRecommendationScope = { brand?: string; model?: string }
+
+/**
+ * Suchraster für das Cockpit je Größe – übliche Serien-Vorbauten und
+ * Spacer-Stapel, bewusst enger als `COCKPIT_LIMITS`.
+ */
+export const SIZE_SEARCH_GRID = {
+  stemLength: [70, 80, 90, 100, 110, 120, 130],
+  stemAngle: [-17, -6, 0, 6],
+  spacerHeight: [0, 10, 20, 30, 40],
+} as const
+
+/** Punkte je Ampelfarbe (Summe über alle Kennzahlen). */
+const RATING_POINTS: Record<MetricRating, number> = { green: 2, yellow: 1, red: 0 }
+
+/** Gewicht einer Ampelstufe gegenüber 1 Punkt Anpassungsaufwand. */
+const RATING_WEIGHT = 10
+
+// ════════════════════════════════════════════════════════════════════════════
+// BEWERTUNG
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Anpassungsaufwand: je 10 mm Vorbaulänge, 10 mm Spacer und 10° Vorbauwinkel
+ * Abweichung vom Ausgangs-Cockpit ein Punkt.
+ */
+function adjustmentCost(cockpit: CockpitSetup, base: CockpitSetup): number {
+  return (
+    Math.abs(cockpit.stemLength - base.stemLength) / 10 +
+    Math.abs(cockpit.spacerHeight - base.spacerHeight) / 10 +
+    Math.abs(cockpit.stemAngle - base.stemAngle) / 10
+  )
+}
+
+function ratingScore(metrics: FitMetric[]): number {
+  return metrics.reduce((sum, metric) => sum + RATING_POINTS[metric.rating], 0)
+}
+
+/** Differenz zum Ausgangswert, z.B. " (+20)" – leer ohne Änderung. */
+function formatDelta(value: number, base: number): string {
+  const delta = value - base
+  return delta === 0 ? '' : ` (${delta > 0 ? '+' : ''}${delta})`
+}
+
+function describe(
+  recommendation: Omit<SizeRecommendation, 'reasons'>,
+  base: CockpitSetup,
+  seatPostReachable: boolean
+): string[] {
+  const { cockpit, metrics } = recommendation
+  const reasons = [
+    `${recommendation.greenCount}/${metrics.length} Kennzahlen im optimalen Bereich`,
+    `Sattelstütze ${cockpit.seatPostLength} mm${seatPostReachable ? '' : ' (Ziel-Kniewinkel nicht erreichbar)'}`,
+    `Vorbau ${cockpit.stemLength} mm${formatDelta(cockpit.stemLength, base.stemLength)} / ` +
+      `${cockpit.stemAngle}°${formatDelta(cockpit.stemAngle, base.stemAngle)}, ` +
+      `Spacer ${cockpit.spacerHeight} mm${formatDelta(cockpit.spacerHeight, base.spacerHeight)}`,
+  ]
+  metrics
+    .filter((metric) => metric.rating !== 'green')
+    .forEach((metric) => {
+      reasons.push(`${metric.label} ${RATING_LABELS[metric.rating]} (${metric.value.toFixed(0)} ${metric.unit}, optimal ${metric.range})`)
+    })
+  return reasons
+}
+
+/**
+ * Simuliert eine Größe: Sattelhöhe über den Kniewinkel-Solver, dann das
+ * Cockpit aus `SIZE_SEARCH_GRID` mit der besten Kombination aus Ampelwertung
+ * und Anpassungsaufwand. Knie-Zielbereich und Ampelwertung folgen `thresholds`.
+ */
+export function evaluateSize(
+  bike: BikeData,
+  baseCockpit: CockpitSetup,
+  thresholds: FitThresholds = RACE_THRESHOLDS
+): SizeRecommendation {
+  const saddle = solveSeatPostForKneeAngle(bike, kneeAngleTargetFor(thresholds))
+  const seated: CockpitSetup = { ...baseCockpit, seatPostLength: saddle.seatPostLength }
+
+  let best: Omit<SizeRecommendation, 'reasons'> | null = null
+  for (const stemLength of SIZE_SEARCH_GRID.stemLength) {
+    for (const stemAngle of SIZE_SEARCH_GRID.stemAngle) {
+      for (const spacerHeight of SIZE_SEARCH_GRID.spacerHeight) {
+        const cockpit = { ...seated, stemLength, stemAngle, spacerHeight }
+        const metrics = evaluateFit(calculateBikeGeometry({ ...bike, cockpit }), thresholds)
+        const adjustment = adjustmentCost(cockpit, baseCockpit)
+        const score = ratingScore(metrics) * RATING_WEIGHT - adjustment
+        if (!best || score > best.score) {
+          best = {
+            brand: bike.brand,
+            model: bike.model,
+            size: bike.size,
+            geometry: bike.geometry,
+            cockpit,
+            metrics,
+            greenCount: metrics.filter((metric) => metric.rating === 'green').length,
+            adjustment,
+            score,
+          }
+        }
+      }
+    }
+  }
+
+  // Raster ist nie leer – best ist gesetzt
+  const result = best as Omit<SizeRecommendation, 'reasons'>
+  return { ...result, reasons: describe(result, baseCockpit, saddle.reachable) }
+}
+
+/**
+ * Bewertet alle Größen (optional nur einer Marke/eines Modells) für einen
+ * Fahrer und liefert sie absteigend nach Score sortiert.
+ */
+export function recommendSizes(
+  bikes: AvailableBikesMap,
+  rider: RiderSetup,
+  baseCockpit: CockpitSetup,
+  scope: SizeRecommendationScope = {},
+  thresholds: FitThresholds = RACE_THRESHOLDS
+): SizeRecommendation[] {
+  return listCustomBikes(bikes)
+    .filter(({ brand, model }) => (!scope.brand || brand === scope.brand) && (!scope.model || model === scope.model))
+    .map(({ brand, model, size, geometry }) =>
+      evaluateSize({ brand, model, size, geometry, cockpit: baseCockpit, rider }, baseCockpit, thresholds)
+    )
+    .sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,100 @@
+import type { BikeData, BikeGeometry } from '@/types/bike'
+import { calculateBikeGeometry, SCALE } from '@/lib/bike-geometry'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Auffälligkeit zwischen zwei benachbarten Größen. */
+export type SizeRunIssue = 'jump' | 'stalled' | 'reversed'
+
+export type SizeRunPoint = { size: string; stack: number; reach: number }
+
+export type SizeRunStep = {
+  from: SizeRunPoint
+  to: SizeRunPoint
+  dStack: number
+  dReach: number
+  distance: number
+  issues: SizeRunIssue[]
+}
+
+export type SizeRunAnalysis = {
+  points: SizeRunPoint[] // in Reihenfolge der Größentabelle
+  steps: SizeRunStep[]
+  medianStep: number
+}
+
+export const SIZE_RUN_ISSUE_LABELS: Record<SizeRunIssue, string> = {
+  jump: 'Sprung',
+  stalled: 'Stillstand',
+  reversed: 'Rückschritt',
+}
+
+/** Schritt gilt als Sprung, wenn er größer als Faktor × Median-Schritt ist. */
+export const SIZE_RUN_JUMP_FACTOR = 1.4
+
+/** Stack- oder Reach-Änderung (mm), unter der ein Wert als unverändert gilt. */
+export const SIZE_RUN_STALL_THRESHOLD = 1
+
+// ════════════════════════════════════════════════════════════════════════════
+// ANALYSE
+// ════════════════════════════════════════════════════════════════════════════
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Analysiert den Größenverlauf eines Modells im Stack/Reach-Raum.
+ *
+ * Markiert Rückschritte (Stack oder Reach nimmt ab), Stillstände (ein Wert
+ * bleibt gleich) und Sprünge (Schritt > `SIZE_RUN_JUMP_FACTOR` × Median,
+ * erst ab drei Schritten aussagekräftig).
+ */
+export function analyzeSizeRun(sizes: Record<string, BikeGeometry>): SizeRunAnalysis {
+  const points = Object.entries(sizes).map(([size, geometry]) => ({
+    size,
+    stack: geometry.stack,
+    reach: geometry.reach,
+  }))
+
+  const rawSteps = points.slice(1).map((to, index) => {
+    const from = points[index]
+    const dStack = to.stack - from.stack
+    const dReach = to.reach - from.reach
+    return { from, to, dStack, dReach, distance: Math.hypot(dStack, dReach) }
+  })
+  const medianStep = median(rawSteps.map((step) => step.distance))
+
+  const steps = rawSteps.map((step) => {
+    const issues: SizeRunIssue[] = []
+    if (step.dStack < -SIZE_RUN_STALL_THRESHOLD || step.dReach < -SIZE_RUN_STALL_THRESHOLD) issues.push('reversed')
+    else if (Math.abs(step.dStack) < SIZE_RUN_STALL_THRESHOLD || Math.abs(step.dReach) < SIZE_RUN_STALL_THRESHOLD) {
+      issues.push('stalled')
+    }
+    if (rawSteps.length >= 3 && step.distance > medianStep * SIZE_RUN_JUMP_FACTOR) issues.push('jump')
+    return { ...step, issues }
+  })
+
+  return { points, steps, medianStep }
+}
+
+/** Lenkermitte relativ zum Tretlager in mm (x = „Reach“, y = „Stack“ des Lenkers). */
+export function getHandlebarStackReach(bike: BikeData): { stack: number; reach: number } {
+  const { points } = calculateBikeGeometry(bike)
+  return {
+    reach: (points.handlebarCenter.x - points.bb.x) / SCALE,
+    stack: -(points.handlebarCenter.y - points.bb.y) / SCALE,
+  }
+}
+
+/** Lesbare Beschreibung eines auffälligen Schritts. */
+export function describeSizeRunStep(step: SizeRunStep): string {
+  const sign = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value)}`
+  const issues = step.issues.map((issue) => SIZE_RUN_ISSUE_LABELS[issue]).join(', ')
+  return `${step.from.size} → ${step.to.size}: Stack ${sign(step.dStack)} / Reach ${sign(step.dReach)} mm (${issues})`
+}
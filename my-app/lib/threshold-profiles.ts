@@ -0,0 +1,477 @@
+import { z } from 'zod'
+import {
+  KNEE_90_MIN,
+  KNEE_90_MAX,
+  KNEE_90_MIN_WARNING,
+  KNEE_90_MAX_WARNING,
+  KNEE_270_MIN,
+  KNEE_270_MIN_WARNING,
+  SADDLE_HANDLEBAR_DROP_WARNING,
+  SADDLE_HANDLEBAR_DROP_CRITICAL,
+  KNEE_PEDAL_X_MIN_WARNING,
+  SHOULDER_ANGLE_MIN,
+  SHOULDER_ANGLE_MIN_WARNING,
+  SHOULDER_ANGLE_MAX_WARNING,
+  SHOULDER_ANGLE_MAX,
+  ELBOW_ANGLE_MIN_WARNING,
+  ELBOW_ANGLE_MAX_WARNING,
+  ELBOW_ANGLE_CRITICAL,
+  HIP_ANGLE_CLOSED_MIN,
+  HIP_ANGLE_CLOSED_MIN_WARNING,
+} from '@/lib/warning-thresholds'
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES & CONSTANTS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Alle einstellbaren Warnschwellen (Bedeutung wie in `warning-thresholds.ts`).
+ * Der Sprunggelenk-Check bleibt fest: Er prüft die Plausibilität der
+ * Geometrie, nicht die Sitzposition.
+ */
+export type FitThresholds = {
+  knee90Min: number
+  knee90MinWarning: number
+  knee90MaxWarning: number
+  knee90Max: number
+  knee270Min: number
+  knee270MinWarning: number
+  dropWarning: number
+  dropCritical: number
+  kneePedalXMinWarning: number
+  shoulderMin: number
+  shoulderMinWarning: number
+  shoulderMaxWarning: number
+  shoulderMax: number
+  elbowMinWarning: number
+  elbowMaxWarning: number
+  elbowCritical: number
+  hipClosedMin: number
+  hipClosedMinWarning: number
+}
+
+export type BuiltInThresholdProfileId = 'endurance' | 'race' | 'tt' | 'gravel' | 'comfort'
+
+export type ThresholdProfile = {
+  id: string
+  name: string
+  description: string
+  builtIn: boolean
+  thresholds: FitThresholds
+}
+
+/** Aktives Profil plus eigene Profile (so im localStorage abgelegt). */
+export type ThresholdSettings = {
+  activeId: string
+  customProfiles: ThresholdProfile[]
+}
+
+/** Bisherige Konstanten = Rennrad-Profil. */
+export const RACE_THRESHOLDS: FitThresholds = {
+  knee90Min: KNEE_90_MIN,
+  knee90MinWarning: KNEE_90_MIN_WARNING,
+  knee90MaxWarning: KNEE_90_MAX_WARNING,
+  knee90Max: KNEE_90_MAX,
+  knee270Min: KNEE_270_MIN,
+  knee270MinWarning: KNEE_270_MIN_WARNING,
+  dropWarning: SADDLE_HANDLEBAR_DROP_WARNING,
+  dropCritical: SADDLE_HANDLEBAR_DROP_CRITICAL,
+  kneePedalXMinWarning: KNEE_PEDAL_X_MIN_WARNING,
+  shoulderMin: SHOULDER_ANGLE_MIN,
+  shoulderMinWarning: SHOULDER_ANGLE_MIN_WARNING,
+  shoulderMaxWarning: SHOULDER_ANGLE_MAX_WARNING,
+  shoulderMax: SHOULDER_ANGLE_MAX,
+  elbowMinWarning: ELBOW_ANGLE_MIN_WARNING,
+  elbowMaxWarning: ELBOW_ANGLE_MAX_WARNING,
+  elbowCritical: ELBOW_ANGLE_CRITICAL,
+  hipClosedMin: HIP_ANGLE_CLOSED_MIN,
+  hipClosedMinWarning: HIP_ANGLE_CLOSED_MIN_WARNING,
+}
+
+export const DEFAULT_THRESHOLD_PROFILE_ID: BuiltInThresholdProfileId = 'race'
+
+export const BUILT_IN_THRESHOLD_PROFILES: Record<BuiltInThresholdProfileId, ThresholdProfile> = {
+  endurance: {
+    id: 'endurance',
+    name: 'Endurance',
+    description: 'Lange Ausfahrten: moderate Überhöhung, offenere Hüfte',
+    builtIn: true,
+    thresholds: {
+      ...RACE_THRESHOLDS,
+      knee90Min: 133,
+      knee90MinWarning: 136,
+      knee90MaxWarning: 148,
+      knee90Max: 152,
+      knee270MinWarning: 69,
+      dropWarning: 60,
+      dropCritical: 100,
+      shoulderMin: 70,
+      shoulderMinWarning: 80,
+      shoulderMaxWarning: 95,
+      shoulderMax: 105,
+      hipClosedMin: 45,
+      hipClosedMinWarning: 53,
+    },
+  },
+  race: {
+    id: 'race',
+    name: 'Race',
+    description: 'Straßenrennen: sportliche Position (bisherige Standardwerte)',
+    builtIn: true,
+    thresholds: RACE_THRESHOLDS,
+  },
+  tt: {
+    id: 'tt',
+    name: 'Zeitfahren / Triathlon',
+    description: 'Aeroposition: große Überhöhung, stärker gebeugte Arme, geschlossene Hüfte',
+    builtIn: true,
+    thresholds: {
+      ...RACE_THRESHOLDS,
+      knee90Min: 135,
+      knee90MinWarning: 138,
+      knee90MaxWarning: 150,
+      knee90Max: 154,
+      knee270Min: 57,
+      knee270MinWarning: 63,
+      dropWarning: 130,
+      dropCritical: 180,
+      kneePedalXMinWarning: -10,
+      shoulderMin: 70,
+      shoulderMinWarning: 80,
+      shoulderMaxWarning: 100,
+      shoulderMax: 110,
+      elbowMinWarning: 90,
+      elbowMaxWarning: 130,
+      elbowCritical: 150,
+      hipClosedMin: 38,
+      hipClosedMinWarning: 45,
+    },
+  },
+  gravel: {
+    id: 'gravel',
+    name: 'Gravel',
+    description: 'Gelände und lange Tage: aufrechter, Arme mit Federweg',
+    builtIn: true,
+    thresholds: {
+      ...RACE_THRESHOLDS,
+      knee90Min: 133,
+      knee90MinWarning: 136,
+      knee90MaxWarning: 148,
+      knee90Max: 152,
+      dropWarning: 70,
+      dropCritical: 110,
+      shoulderMin: 70,
+      shoulderMinWarning: 80,
+      shoulderMaxWarning: 95,
+      shoulderMax: 105,
+      elbowMinWarning: 135,
+      elbowMaxWarning: 155,
+      elbowCritical: 165,
+      hipClosedMin: 45,
+      hipClosedMinWarning: 52,
+    },
+  },
+  comfort: {
+    id: 'comfort',
+    name: 'Komfort',
+    description: 'Aufrechte Haltung, wenig bis keine Überhöhung',
+    builtIn: true,
+    thresholds: {
+      ...RACE_THRESHOLDS,
+      knee90Min: 132,
+      knee90MinWarning: 135,
+      knee90MaxWarning: 146,
+      knee90Max: 150,
+      knee270Min: 63,
+      knee270MinWarning: 70,
+      dropWarning: 30,
+      dropCritical: 70,
+      shoulderMin: 55,
+      shoulderMinWarning: 65,
+      shoulderMaxWarning: 90,
+      shoulderMax: 100,
+      elbowMinWarning: 130,
+      elbowMaxWarning: 155,
+      elbowCritical: 165,
+      hipClosedMin: 50,
+      hipClosedMinWarning: 58,
+    },
+  },
+}
+
+export const BUILT_IN_THRESHOLD_PROFILE_IDS = Object.keys(BUILT_IN_THRESHOLD_PROFILES) as BuiltInThresholdProfileId[]
+
+export const DEFAULT_THRESHOLD_SETTINGS: ThresholdSettings = {
+  activeId: DEFAULT_THRESHOLD_PROFILE_ID,
+  customProfiles: [],
+}
+
+/** Feldgruppen für den Einstellungsdialog, in Anzeigereihenfolge. */
+export const THRESHOLD_FIELD_GROUPS: Array<{
+  label: string
+  unit: '°' | 'mm'
+  fields: Array<{ key: keyof FitThresholds; label: string }>
+}> = [
+  {
+    label: 'Kniewinkel unten (6 Uhr)',
+    unit: '°',
+    fields: [
+      { key: 'knee90Min', label: 'Rot unter' },
+      { key: 'knee90MinWarning', label: 'Gelb unter' },
+      { key: 'knee90MaxWarning', label: 'Gelb über' },
+      { key: 'knee90Max', label: 'Rot über' },
+    ],
+  },
+  {
+    label: 'Kniewinkel oben (12 Uhr)',
+    unit: '°',
+    fields: [
+      { key: 'knee270Min', label: 'Rot unter' },
+      { key: 'knee270MinWarning', label: 'Gelb unter' },
+    ],
+  },
+  {
+    label: 'Überhöhung Sattel–Lenker',
+    unit: 'mm',
+    fields: [
+      { key: 'dropWarning', label: 'Gelb über' },
+      { key: 'dropCritical', label: 'Rot über' },
+    ],
+  },
+  {
+    label: 'Knie über Pedalachse (3 Uhr)',
+    unit: 'mm',
+    fields: [{ key: 'kneePedalXMinWarning', label: 'Gelb unter' }],
+  },
+  {
+    label: 'Schulterwinkel',
+    unit: '°',
+    fields: [
+      { key: 'shoulderMin', label: 'Rot unter' },
+      { key: 'shoulderMinWarning', label: 'Gelb unter' },
+      { key: 'shoulderMaxWarning', label: 'Gelb über' },
+      { key: 'shoulderMax', label: 'Rot über' },
+    ],
+  },
+  {
+    label: 'Ellbogenwinkel',
+    unit: '°',
+    fields: [
+      { key: 'elbowMinWarning', label: 'Gelb unter' },
+      { key: 'elbowMaxWarning', label: 'Gelb ab' },
+      { key: 'elbowCritical', label: 'Rot über' },
+    ],
+  },
+  {
+    label: 'Hüftwinkel geschlossen',
+    unit: '°',
+    fields: [
+      { key: 'hipClosedMin', label: 'Rot unter' },
+      { key: 'hipClosedMinWarning', label: 'Gelb unter' },
+    ],
+  },
+]
+
+/** localStorage-Schlüssel für aktives Profil und eigene Schwellen-Profile. */
+export const THRESHOLD_PROFILES_STORAGE_KEY = 'velometric.thresholdProfiles'
+
+/** Aktuelle Schema-Version des gespeicherten Containers. */
+export const THRESHOLD_PROFILES_VERSION = 1
+
+// ════════════════════════════════════════════════════════════════════════════
+// SCHEMA
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Aufsteigende Grenzen je Messung: [untere, obere, Fehlermeldung]. */
+const ORDERED_PAIRS: Array<[keyof FitThresholds, keyof FitThresholds, string]> = [
+  ['knee90Min', 'knee90MinWarning', 'Knie unten: Rot-Grenze muss unter der Gelb-Grenze liegen'],
+  ['knee90MinWarning', 'knee90MaxWarning', 'Knie unten: Optimalbereich ist leer'],
+  ['knee90MaxWarning', 'knee90Max', 'Knie unten: Gelb-Grenze muss unter der Rot-Grenze liegen'],
+  ['knee270Min', 'knee270MinWarning', 'Knie oben: Rot-Grenze muss unter der Gelb-Grenze liegen'],
+  ['dropWarning', 'dropCritical', 'Überhöhung: Gelb-Grenze muss unter der Rot-Grenze liegen'],
+  ['shoulderMin', 'shoulderMinWarning', 'Schulter: Rot-Grenze muss unter der Gelb-Grenze liegen'],
+  ['shoulderMinWarning', 'shoulderMaxWarning', 'Schulter: Optimalbereich ist leer'],
+  ['shoulderMaxWarning', 'shoulderMax', 'Schulter: Gelb-Grenze muss unter der Rot-Grenze liegen'],
+  ['elbowMinWarning', 'elbowMaxWarning', 'Ellbogen: Optimalbereich ist leer'],
+  ['elbowMaxWarning', 'elbowCritical', 'Ellbogen: Gelb-Grenze muss unter der Rot-Grenze liegen'],
+  ['hipClosedMin', 'hipClosedMinWarning', 'Hüfte: Rot-Grenze muss unter der Gelb-Grenze liegen'],
+]
+
+const angle = z.number().min(0).max(180)
+const distance = z.number().min(-300).max(400)
+
+export const fitThresholdsSchema = z
+  .object({
+    knee90Min: angle,
+    knee90MinWarning: angle,
+    knee90MaxWarning: angle,
+    knee90Max: angle,
+    knee270Min: angle,
+    knee270MinWarning: angle,
+    dropWarning: distance,
+    dropCritical: distance,
+    kneePedalXMinWarning: distance,
+    shoulderMin: angle,
+    shoulderMinWarning: angle,
+    shoulderMaxWarning: angle,
+    shoulderMax: angle,
+    elbowMinWarning: angle,
+    elbowMaxWarning: angle,
+    elbowCritical: angle,
+    hipClosedMin: angle,
+    hipClosedMinWarning: angle,
+  })
+  .superRefine((thresholds, ctx) => {
+    for (const [lower, upper, message] of ORDERED_PAIRS) {
+      if (thresholds[lower] > thresholds[upper]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [upper], message })
+      }
+    }
+  })
+
+const storedProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().default(''),
+  thresholds: fitThresholdsSchema,
+})
+
+/** Container im localStorage: `{ version, activeId, profiles }`. */
+const storedContainerSchema = z.object({
+  version: z.number(),
+  activeId: z.string(),
+  profiles: z.array(z.unknown()),
+})
+
+type StoredContainer = z.infer<typeof storedContainerSchema>
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+function createThresholdProfileId(): string {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function parseProfile(raw: unknown): ThresholdProfile | null {
+  const result = storedProfileSchema.safeParse(raw)
+  if (!result.success) return null
+  return { ...result.data, builtIn: false }
+}
+
+/** Erste Fehlermeldung einer Schwellen-Konfiguration oder `null`, wenn gültig. */
+export function validateFitThresholds(thresholds: FitThresholds): string | null {
+  const result = fitThresholdsSchema.safeParse(thresholds)
+  return result.success ? null : result.error.issues[0]?.message ?? 'Ungültige Werte'
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// STORAGE
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Liest aktives Profil und eigene Profile aus dem localStorage. Ungültige
+ * Profile werden verworfen; zeigt die Auswahl ins Leere, gilt wieder Race.
+ */
+export function loadThresholdSettings(): ThresholdSettings {
+  if (typeof window === 'undefined') return DEFAULT_THRESHOLD_SETTINGS
+
+  let json: unknown
+  try {
+    const raw = window.localStorage.getItem(THRESHOLD_PROFILES_STORAGE_KEY)
+    if (!raw) return DEFAULT_THRESHOLD_SETTINGS
+    json = JSON.parse(raw)
+  } catch {
+    return DEFAULT_THRESHOLD_SETTINGS
+  }
+
+  const container = storedContainerSchema.safeParse(json)
+  if (!container.success || container.data.version !== THRESHOLD_PROFILES_VERSION) {
+    return DEFAULT_THRESHOLD_SETTINGS
+  }
+
+  const customProfiles = container.data.profiles
+    .map(parseProfile)
+    .filter((profile): profile is ThresholdProfile => profile !== null)
+  const settings = { activeId: container.data.activeId, customProfiles }
+  return findThresholdProfile(settings, settings.activeId)
+    ? settings
+    : { ...settings, activeId: DEFAULT_THRESHOLD_PROFILE_ID }
+}
+
+export function saveThresholdSettings(settings: ThresholdSettings): void {
+  if (typeof window === 'undefined') return
+  const container: StoredContainer = {
+    version: THRESHOLD_PROFILES_VERSION,
+    activeId: settings.activeId,
+    profiles: settings.customProfiles.map(({ id, name, description, thresholds }) => ({
+      id,
+      name,
+      description,
+      thresholds,
+    })),
+  }
+  try {
+    window.localStorage.setItem(THRESHOLD_PROFILES_STORAGE_KEY, JSON.stringify(container))
+  } catch {
+    // Speicher voll oder deaktiviert: Einstellungen gelten nur für diese Sitzung
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PROFIL-OPERATIONEN (immutable, geben neue Einstellungen zurück)
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Mitgelieferte und eigene Profile in Anzeigereihenfolge. */
+export function listThresholdProfiles(settings: ThresholdSettings): ThresholdProfile[] {
+  return [
+    ...BUILT_IN_THRESHOLD_PROFILE_IDS.map((id) => BUILT_IN_THRESHOLD_PROFILES[id]),
+    ...settings.customProfiles,
+  ]
+}
+
+export function findThresholdProfile(settings: ThresholdSettings, id: string): ThresholdProfile | undefined {
+  return listThresholdProfiles(settings).find((profile) => profile.id === id)
+}
+
+/** Aktives Profil; fällt auf Race zurück, falls die Auswahl nicht mehr existiert. */
+export function getActiveThresholdProfile(settings: ThresholdSettings): ThresholdProfile {
+  return findThresholdProfile(settings, settings.activeId) ?? BUILT_IN_THRESHOLD_PROFILES[DEFAULT_THRESHOLD_PROFILE_ID]
+}
+
+/** Legt eine Kopie eines bestehenden Profils als eigenes Profil an und aktiviert sie. */
+export function copyThresholdProfile(settings: ThresholdSettings, sourceId: string): ThresholdSettings {
+  const source = findThresholdProfile(settings, sourceId)
+  if (!source) return settings
+  const copy: ThresholdProfile = {
+    id: createThresholdProfileId(),
+    name: `${source.name} (eigen)`,
+    description: source.description,
+    builtIn: false,
+    thresholds: { ...source.thresholds },
+  }
+  return { activeId: copy.id, customProfiles: [...settings.customProfiles, copy] }
+}
+
+/** Aktualisiert ein eigenes Profil; mitgelieferte Profile bleiben unverändert. */
+export function updateThresholdProfile(
+  settings: ThresholdSettings,
+  id: string,
+  changes: Partial<Pick<ThresholdProfile, 'name' | 'thresholds'>>
+): ThresholdSettings {
+  return {
+    ...settings,
+    customProfiles: settings.customProfiles.map((profile) =>
+      profile.id === id
+        ? { ...profile, ...changes, name: changes.name?.trim() || profile.name }
+        : profile
+    ),
+  }
+}
+
+export function deleteThresholdProfile(settings: ThresholdSettings, id: string): ThresholdSettings {
+  return {
+    activeId: settings.activeId === id ? DEFAULT_THRESHOLD_PROFILE_ID : settings.activeId,
+    customProfiles: settings.customProfiles.filter((profile) => profile.id !== id),
+  }
+}
@@ -33,6 +33,12 @@ export const KNEE_90_MIN_WARNING = 137   // Warnbereich Untergrenze (gelb)
 export const KNEE_90_MAX_WARNING = 149   // Warnbereich Obergrenze (gelb)
 export const KNEE_90_MAX = 153           // Absolute Obergrenze (rot)
 
+/**
+ * Ab diesem Kniewinkel ist das Bein rechnerisch voll gestreckt: Der Sattel
+ * ist für die angegebene Beinlänge zu hoch, die Position nicht umsetzbar.
+ */
+export const KNEE_90_IMPLAUSIBLE = 180
+
 /**
  * Kniewinkel bei 270° Pedalstellung (Pedal oben)
  * 
@@ -104,3 +110,19 @@ export const SHOULDER_ANGLE_MAX = 110          // Absolute Obergrenze (rot)
 export const ELBOW_ANGLE_MIN_WARNING = 140  // Unterhalb gelb (zu stark gebeugt)
 export const ELBOW_ANGLE_MAX_WARNING = 160  // Warnbereich Obergrenze (gelb ab diesem Wert)
 export const ELBOW_ANGLE_CRITICAL = 170     // Kritischer Bereich (rot ab diesem Wert)
+
+// ════════════════════════════════════════════════════════════════════════════
+// HÜFTWINKEL (Oberkörper ↔ Oberschenkel)
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Geschlossener Hüftwinkel: kleinster Winkel zwischen Oberkörper und
+ * Oberschenkel über die Kurbelumdrehung (nahe oberem Totpunkt)
+ * 
+ * Optimaler Bereich: ≥ 50°
+ * - ROT: < 42° (Hüfte zu geschlossen - Leistungsverlust, Druck auf Weichteile)
+ * - GELB: 42-50° (aggressive Position, grenzwertig)
+ * - GRAU: ≥ 50° (optimal)
+ */
+export const HIP_ANGLE_CLOSED_MIN = 42           // Absolute Untergrenze (rot)
+export const HIP_ANGLE_CLOSED_MIN_WARNING = 50   // Warnbereich Untergrenze (gelb)
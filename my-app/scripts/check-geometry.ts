@@ -0,0 +1,59 @@
+/**
+ * Konsistenz-Report für data/bikes.json.
+ *
+ * Rechnet redundante Geometriewerte (Radstand, Front Center, Stack) aus den
+ * Rahmenpunkten nach und listet Abweichungen außerhalb der Toleranz sowie
+ * Platzhalterwerte der anderen Skripte.
+ *
+ * Aufruf: npm run check:geometry            (nur Auffälligkeiten)
+ *         npm run check:geometry -- --all   (alle Größen)
+ * Exit-Code 1, wenn mindestens eine Prüfung außerhalb der Toleranz liegt.
+ */
+import bikesData from '@/data/bikes.json'
+import { parseBikesData } from '@/lib/bikes-schema'
+import { checkBikesConsistency } from '@/lib/geometry-consistency'
+
+const showAll = process.argv.includes('--all')
+const report = checkBikesConsistency(parseBikesData(bikesData))
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}`
+}
+
+let currentModel = ''
+let failedSizes = 0
+let placeholderSizes = 0
+
+for (const entry of report) {
+  const failed = entry.checks.filter((check) => !check.ok)
+  if (failed.length > 0) failedSizes++
+  if (entry.placeholders.length > 0) placeholderSizes++
+  if (!showAll && !entry.hasIssues) continue
+
+  const modelName = `${entry.brand} ${entry.model}`
+  if (modelName !== currentModel) {
+    console.log(`\n${modelName}`)
+    currentModel = modelName
+  }
+
+  const checks = showAll ? entry.checks : failed
+  if (checks.length === 0 && entry.placeholders.length === 0) {
+    console.log(`  ${entry.size.padEnd(5)} ✓ konsistent`)
+  }
+  checks.forEach((check, i) => {
+    const prefix = i === 0 ? `  ${entry.size.padEnd(5)}` : '       '
+    console.log(
+      `${prefix} ${check.ok ? '✓' : '✗'} ${check.label}: angegeben ${check.declared}, ` +
+      `berechnet ${check.derived.toFixed(1)} (Δ ${formatSigned(check.difference)}, Toleranz ±${check.tolerance})`
+    )
+  })
+  if (entry.placeholders.length > 0) {
+    const prefix = checks.length === 0 ? `  ${entry.size.padEnd(5)}` : '       '
+    console.log(`${prefix} ⚠ Mögliche Platzhalter: ${entry.placeholders.join(', ')}`)
+  }
+}
+
+console.log(
+  `\n${report.length} Größen geprüft – ${failedSizes} mit Abweichungen, ${placeholderSizes} mit Platzhaltern.`
+)
+process.exitCode = failedSizes > 0 ? 1 : 0
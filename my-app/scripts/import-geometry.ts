@@ -0,0 +1,104 @@
+/**
+ * Importiert eine Hersteller-Geometrietabelle (CSV oder JSON) in data/bikes.json.
+ *
+ * Ohne --write wird nur der Diff gegen den bestehenden Datensatz ausgegeben.
+ *
+ * Aufruf: npm run import:geometry -- <datei> --brand <Marke> --model <Modell>
+ *           [--unit cm] [--rows | --columns] [--map "Label=feld"]... [--write]
+ *
+ * --rows/--columns legt fest, ob die Größen als Zeilen oder Spalten stehen
+ * (Standard: automatisch). --map ordnet eine Tabellenbeschriftung einem
+ * Geometrie-Feld zu ("Label=" ignoriert sie).
+ * Exit-Code 1 bei Fehlern in der Tabelle.
+ */
+import fs from 'fs'
+import path from 'path'
+import bikesData from '@/data/bikes.json'
+import type { BikeGeometry } from '@/types/bike'
+import { parseBikesData } from '@/lib/bikes-schema'
+import { mergeAvailableBikes } from '@/lib/custom-bikes'
+import { GEOMETRY_FIELDS } from '@/lib/geometry-fields'
+import {
+  diffBikes,
+  importGeometryCsv,
+  importGeometryJson,
+  normalizeLabel,
+  type HeaderMapping,
+  type ImportOrientation,
+} from '@/lib/geometry-import'
+
+const BIKES_FILE = path.join(__dirname, '..', 'data', 'bikes.json')
+
+const args = process.argv.slice(2)
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(name)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+const file = args.find((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'))
+const brand = option('--brand') ?? ''
+const model = option('--model') ?? ''
+if (!file) fail('Keine Datei angegeben.')
+
+const orientation: ImportOrientation | 'auto' = args.includes('--rows')
+  ? 'sizesAsRows'
+  : args.includes('--columns')
+    ? 'sizesAsColumns'
+    : 'auto'
+
+const fieldKeys = GEOMETRY_FIELDS.map(({ key }) => key as string)
+const headerMapping: HeaderMapping = {}
+args.forEach((arg, i) => {
+  if (arg !== '--map') return
+  const [label, field = ''] = (args[i + 1] ?? '').split('=')
+  if (field && !fieldKeys.includes(field)) fail(`Unbekanntes Feld "${field}" (erlaubt: ${fieldKeys.join(', ')}).`)
+  headerMapping[normalizeLabel(label)] = field ? (field as keyof BikeGeometry) : null
+})
+
+const text = fs.readFileSync(file, 'utf8')
+const result = text.trim().startsWith('{')
+  ? importGeometryJson(text, { brand, model })
+  : importGeometryCsv(text, {
+      brand,
+      model,
+      orientation,
+      unit: option('--unit') === 'cm' ? 'cm' : 'mm',
+      headerMapping,
+    })
+
+const unmapped = result.labels.filter((label) => !label.field)
+if (unmapped.length > 0) {
+  console.log(`Ignorierte Beschriftungen: ${unmapped.map((label) => label.label).join(', ')}`)
+}
+result.errors.forEach((error) => console.error(`✗ ${error}`))
+
+const existing = parseBikesData(bikesData)
+const diff = diffBikes(existing, result.bikes)
+const labelOf = (key: keyof BikeGeometry) => GEOMETRY_FIELDS.find((field) => field.key === key)?.label ?? key
+
+for (const entry of diff) {
+  const name = `${entry.brand} ${entry.model} ${entry.size}`
+  if (entry.status === 'added') console.log(`+ ${name}`)
+  else if (entry.status === 'unchanged') console.log(`= ${name}`)
+  else {
+    console.log(`~ ${name}`)
+    entry.changes.forEach((change) => console.log(`    ${labelOf(change.field)}: ${change.before ?? '–'} → ${change.after}`))
+  }
+}
+
+const changed = diff.filter((entry) => entry.status !== 'unchanged').length
+console.log(`\n${diff.length} Größen gelesen – ${changed} neu oder geändert.`)
+
+if (args.includes('--write') && changed > 0) {
+  // Rohdaten zusammenführen, damit bestehende Einträge unverändert bleiben
+  const merged = mergeAvailableBikes(bikesData as typeof existing, result.bikes)
+  fs.writeFileSync(BIKES_FILE, JSON.stringify(merged, null, 2) + '\n')
+  console.log('bikes.json aktualisiert.')
+}
+process.exitCode = result.errors.length > 0 ? 1 : 0
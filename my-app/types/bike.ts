@@ -28,13 +28,41 @@ export type CockpitSetup = {
   saddleSetback?: number // mm, optional für Kompatibilität
   saddleLength?: number // mm, optional für Kompatibilität
   sitboneOffset?: number // mm, optional für Kompatibilität
+  cleatOffset?: number // mm, Cleat hinter dem Fußballen (positiv = Richtung Ferse)
 }
 
+/** Körperproportionen-Vorlage für nicht gemessene Segmente. */
+export type RiderProportionPreset =
+  | 'standard'
+  | 'maleAverage'
+  | 'femaleAverage'
+  | 'longLegs'
+  | 'shortLegs'
+  | 'longArms'
+
+/** Fußwinkel-Verlauf über die Kurbelumdrehung (Pedalier-Stil). */
+export type AnklingProfile = 'standard' | 'flat' | 'heelDrop' | 'toeDown' | 'custom'
+
+/** Fußwinkel (°, positiv = Zehen runter) bei 0°, 90°, 180° und 270° Kurbelwinkel. */
+export type AnklingKeyframes = [number, number, number, number]
+
 export type RiderSetup = {
   riderHeight: number
   riderInseam: number
   torsoAngle: number
   shoeThickness: number
+  // Gemessene Segmentlängen (mm), optional – sonst aus Körperproportionen
+  thighLength?: number // Hüftgelenk → Kniegelenk
+  shankLength?: number // Kniegelenk → Sprunggelenk
+  footLength?: number // Ferse → Zehenspitze
+  torsoLength?: number // Sitzbein → Schulter (Akromion)
+  upperArmLength?: number // Schulter → Ellbogen
+  forearmLength?: number // Ellbogen → Griffmitte
+  shoulderHeight?: number // Boden → Schulter (Akromion), stehend
+  proportionPreset?: RiderProportionPreset // optional, Standard: 'standard'
+  anklingProfile?: AnklingProfile // optional, Standard: 'standard'
+  anklingKeyframes?: AnklingKeyframes // nur für 'custom'
+  targetElbowAngle?: number // °, gesetzt = Oberkörperwinkel wird daraus gelöst statt torsoAngle
 }
 
 export type BikeData = {